@@ -3,7 +3,7 @@ import resolve from "@rollup/plugin-node-resolve";
 
 export default [
   {
-    input: "src/index.ts",
+    input: ["src/index.ts", "src/languages/index.ts", "src/cli.ts"],
     output: {
       dir: "dist",
       format: "esm",
@@ -0,0 +1,497 @@
+#!/usr/bin/env node
+import {
+  existsSync,
+  FSWatcher,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  watch,
+  writeFileSync,
+} from "node:fs";
+import { dirname, extname, join, relative, resolve } from "node:path";
+import { Diagnostic } from "./diagnostics";
+import { languages } from "./languages";
+import { Markyfy } from "./markyfy";
+import { HtmlPolicy, ParserOptions } from "./parser";
+import { ThemeName } from "./theme";
+
+const USAGE = `Usage: markyfy [options] [input]
+
+Converts Markdown to HTML. The input is a .md file, a directory of .md files
+(converted recursively) or "-" for stdin, which is also the default.
+
+Output:
+  -o, --out <path>        Output file, or output directory for a directory input.
+                          Files default to stdout; directories to .html files
+                          next to the .md files.
+  -t, --template <file>   HTML page template; {{content}} and {{toc}} are replaced
+                          with the document and its table of contents.
+  -w, --watch             Rebuild files when they change.
+  --check                 Report parse warnings without writing any output, and
+                          exit with status 1 if there are any.
+  -h, --help              Show this help.
+
+Parser options (see ParserOptions; boolean flags accept a --no- prefix):
+  --gfm, --breaks, --header-ids, --sanitize, --lazy-images, --commonmark,
+  --math, --front-matter, --inject-styles, --auto-detect, --strict
+  --html <passthrough|escape|filter>
+  --theme <one-dark|one-light>
+  --languages <all|name,...>   Grammars to register for highlighting.
+  --toc-min-depth <n>, --toc-max-depth <n>, --toc-placeholder
+`;
+
+/**
+ * Represents the {@link ParserOptions} fields that have a boolean flag.
+ *
+ * @typedef {string} BooleanOption
+ */
+type BooleanOption =
+  | "gfm"
+  | "breaks"
+  | "headerIds"
+  | "sanitize"
+  | "lazyImages"
+  | "commonmark"
+  | "math"
+  | "frontMatter"
+  | "injectStyles"
+  | "autoDetect"
+  | "strict";
+
+/**
+ * The boolean flags for {@link ParserOptions} fields, keyed by flag name.
+ */
+const BOOLEAN_OPTIONS: Record<string, BooleanOption> = {
+  gfm: "gfm",
+  breaks: "breaks",
+  "header-ids": "headerIds",
+  sanitize: "sanitize",
+  "lazy-images": "lazyImages",
+  commonmark: "commonmark",
+  math: "math",
+  "front-matter": "frontMatter",
+  "inject-styles": "injectStyles",
+  "auto-detect": "autoDetect",
+  strict: "strict",
+};
+
+const HTML_POLICIES: HtmlPolicy[] = ["passthrough", "escape", "filter"];
+const THEMES: ThemeName[] = ["one-dark", "one-light"];
+const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+
+/**
+ * Represents the parsed command line.
+ *
+ * @interface
+ */
+interface CliOptions {
+  /** The input file or directory, or "-" for stdin. */
+  input: string;
+
+  /** The output file or directory, if given. */
+  out?: string;
+
+  /** The path of the page template, if given. */
+  template?: string;
+
+  /** Whether to rebuild files when they change. */
+  watch: boolean;
+
+  /** Whether to only report parse warnings. */
+  check: boolean;
+
+  /** Whether to show the usage. */
+  help: boolean;
+
+  /** The options passed to {@link Markyfy}. */
+  parser: ParserOptions;
+}
+
+/**
+ * The error thrown for invalid command lines, reported with the usage hint.
+ *
+ * @class
+ */
+class UsageError extends Error {}
+
+/**
+ * Parses the command-line arguments.
+ *
+ * @param {string[]} args - The arguments, without the node and script paths.
+ * @returns {CliOptions} The parsed options.
+ * @throws {UsageError} If an argument is unknown or a value is missing or invalid.
+ */
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    input: "-",
+    watch: false,
+    check: false,
+    help: false,
+    parser: {},
+  };
+  const toc: NonNullable<ParserOptions["toc"]> = {};
+  let input: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "-" || !arg.startsWith("-")) {
+      if (input !== undefined) throw new UsageError(`Unexpected "${arg}"`);
+      input = arg;
+      continue;
+    }
+
+    const [flag, inline] = arg.split(/=(.*)/s, 2);
+    const value = (): string => {
+      const next = inline ?? args[++i];
+      if (next === undefined) throw new UsageError(`${flag} needs a value`);
+      return next;
+    };
+    const name = flag.replace(/^--?/, "");
+    const negated = name.startsWith("no-") && name.slice(3);
+
+    if (name in BOOLEAN_OPTIONS || (negated && negated in BOOLEAN_OPTIONS)) {
+      options.parser[BOOLEAN_OPTIONS[negated || name]] = !negated;
+      continue;
+    }
+
+    switch (flag) {
+      case "-o":
+      case "--out":
+        options.out = value();
+        break;
+      case "-t":
+      case "--template":
+        options.template = value();
+        break;
+      case "-w":
+      case "--watch":
+        options.watch = true;
+        break;
+      case "--check":
+        options.check = true;
+        break;
+      case "-h":
+      case "--help":
+        options.help = true;
+        break;
+      case "--html":
+        options.parser.html = oneOf(flag, value(), HTML_POLICIES);
+        break;
+      case "--theme":
+        options.parser.theme = oneOf(flag, value(), THEMES);
+        break;
+      case "--languages":
+        options.parser.languages = selectLanguages(value());
+        break;
+      case "--toc-min-depth":
+        toc.minDepth = depth(flag, value());
+        break;
+      case "--toc-max-depth":
+        toc.maxDepth = depth(flag, value());
+        break;
+      case "--toc-placeholder":
+        toc.placeholder = true;
+        break;
+      default:
+        throw new UsageError(`Unknown option ${flag}`);
+    }
+  }
+
+  if (Object.keys(toc).length) options.parser.toc = toc;
+  options.input = input ?? "-";
+  if (options.watch && options.input === "-") {
+    throw new UsageError("--watch needs an input file or directory");
+  }
+  return options;
+}
+
+/**
+ * Checks that a flag's value is one of the allowed values.
+ *
+ * @param {string} flag - The flag, for the error message.
+ * @param {string} value - The value.
+ * @param {T[]} allowed - The allowed values.
+ * @returns {T} The value.
+ * @throws {UsageError} If the value is not allowed.
+ */
+function oneOf<T extends string>(flag: string, value: string, allowed: T[]): T {
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`${flag} must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+/**
+ * Parses a heading depth between 1 and 6.
+ *
+ * @param {string} flag - The flag, for the error message.
+ * @param {string} value - The value.
+ * @returns {number} The depth.
+ * @throws {UsageError} If the value is not a depth.
+ */
+function depth(flag: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > 6) {
+    throw new UsageError(`${flag} must be a number from 1 to 6`);
+  }
+  return number;
+}
+
+/**
+ * Selects the built-in grammars named in a comma-separated list, or all of them for "all".
+ *
+ * @param {string} value - The list of names.
+ * @returns {LanguageDefinition[]} The grammars.
+ * @throws {UsageError} If a name is not a built-in grammar.
+ */
+function selectLanguages(value: string): ParserOptions["languages"] {
+  if (value === "all") return languages;
+  return value.split(",").map((name) => {
+    const language = languages.find(
+      (language) =>
+        language.name === name.trim().toLowerCase() ||
+        language.aliases?.includes(name.trim().toLowerCase())
+    );
+    if (!language) throw new UsageError(`Unknown language "${name}"`);
+    return language;
+  });
+}
+
+/**
+ * Converts Markdown files to HTML with one shared parser, collecting the diagnostics of each file.
+ *
+ * @class
+ */
+class Converter {
+  /** The parser. */
+  private markyfy: Markyfy;
+
+  /** The page template, if any. */
+  private template?: string;
+
+  /** The diagnostics of the file being converted. */
+  private diagnostics: Diagnostic[] = [];
+
+  /**
+   * Creates an instance of Converter.
+   *
+   * @param {ParserOptions} options - The parser options.
+   * @param {string} [template] - The page template, if any.
+   */
+  constructor(options: ParserOptions, template?: string) {
+    this.template = template;
+    this.markyfy = new Markyfy({
+      ...options,
+      onWarning: (diagnostic) => this.diagnostics.push(diagnostic),
+    });
+  }
+
+  /**
+   * Converts a Markdown document to HTML, filling in the template if there is one.
+   *
+   * @param {string} markdown - The Markdown document.
+   * @returns {{ html: string; diagnostics: Diagnostic[] }} The HTML and the issues found while parsing.
+   */
+  convert(markdown: string): { html: string; diagnostics: Diagnostic[] } {
+    this.diagnostics = [];
+    const tokens = this.markyfy.lex(markdown);
+    const content = this.markyfy.render(tokens);
+    // Both slots are filled in one pass, so a document containing `{{toc}}` is left as is.
+    let toc: string | undefined;
+    const html = this.template
+      ? this.template.replace(/\{\{\s*(content|toc)\s*\}\}/g, (_, slot) =>
+          slot === "content"
+            ? content
+            : (toc ??= this.markyfy.renderToc(tokens))
+        )
+      : content;
+    return { html, diagnostics: this.diagnostics };
+  }
+}
+
+/**
+ * Finds the Markdown files in a directory tree, skipping hidden directories and `node_modules`.
+ *
+ * @param {string} directory - The directory to search.
+ * @returns {string[]} The paths of the Markdown files, sorted.
+ */
+function findMarkdownFiles(directory: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && entry.name !== "node_modules") {
+        files.push(...findMarkdownFiles(path));
+      }
+    } else if (isMarkdownFile(path)) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Checks whether a path has a Markdown file extension.
+ *
+ * @param {string} path - The path.
+ * @returns {boolean} True if the path is a Markdown file, otherwise false.
+ */
+function isMarkdownFile(path: string): boolean {
+  return MARKDOWN_EXTENSIONS.includes(extname(path).toLowerCase());
+}
+
+/**
+ * Formats a diagnostic as `file:line:column: severity: message (code)`.
+ *
+ * @param {string} file - The file the diagnostic was found in.
+ * @param {Diagnostic} diagnostic - The diagnostic.
+ * @returns {string} The formatted diagnostic.
+ */
+function formatDiagnostic(file: string, diagnostic: Diagnostic): string {
+  const start = diagnostic.position?.start;
+  const location = start ? `:${start.line}:${start.column}` : "";
+  return `${file}${location}: ${diagnostic.severity}: ${diagnostic.message} (${diagnostic.code})`;
+}
+
+/**
+ * Runs the command line.
+ *
+ * @param {string[]} args - The arguments, without the node and script paths.
+ * @returns {number} The exit status: 0 on success, 1 if a file failed or `--check` found issues, 2 for usage errors and missing files.
+ */
+function main(args: string[]): number {
+  let options: CliOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(
+      `markyfy: ${error.message}\nRun "markyfy --help" for usage.\n`
+    );
+    return 2;
+  }
+
+  if (options.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  for (const path of [options.input, options.template]) {
+    if (path && path !== "-" && !existsSync(path)) {
+      process.stderr.write(`markyfy: ${path}: no such file\n`);
+      return 2;
+    }
+  }
+
+  const loadConverter = () =>
+    new Converter(
+      options.parser,
+      options.template ? readFileSync(options.template, "utf8") : undefined
+    );
+  let converter = loadConverter();
+
+  /**
+   * Converts one document and writes it to `output`, or to stdout without one.
+   * Returns false if the document failed or, with `--check`, had issues.
+   */
+  const build = (source: string, markdown: string, output?: string) => {
+    let result: ReturnType<Converter["convert"]>;
+    try {
+      result = converter.convert(markdown);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      process.stderr.write(`${source}: error: ${message}\n`);
+      return false;
+    }
+
+    for (const diagnostic of result.diagnostics) {
+      process.stderr.write(`${formatDiagnostic(source, diagnostic)}\n`);
+    }
+    if (options.check) return result.diagnostics.length === 0;
+
+    if (output) {
+      mkdirSync(dirname(output), { recursive: true });
+      writeFileSync(output, result.html);
+    } else {
+      process.stdout.write(
+        result.html.endsWith("\n") ? result.html : `${result.html}\n`
+      );
+    }
+    return true;
+  };
+
+  if (options.input === "-") {
+    return build("<stdin>", readFileSync(0, "utf8"), options.out) ? 0 : 1;
+  }
+
+  const input = resolve(options.input);
+  const directory = statSync(input).isDirectory();
+  const outputFor = (file: string): string | undefined => {
+    if (!directory) return options.out;
+    const target = join(options.out ?? input, relative(input, file));
+    return target.slice(0, -extname(target).length) + ".html";
+  };
+  const buildFile = (file: string) =>
+    build(
+      relative(process.cwd(), file) || file,
+      readFileSync(file, "utf8"),
+      outputFor(file)
+    );
+
+  const files = directory ? findMarkdownFiles(input) : [input];
+  let ok = true;
+  for (const file of files) ok = buildFile(file) && ok;
+
+  if (!options.watch) return ok ? 0 : 1;
+
+  // Editors often write a file in several steps, so rebuilds are debounced per file.
+  const pending = new Map<string, ReturnType<typeof setTimeout>>();
+  const schedule = (file: string, rebuild: () => void) => {
+    clearTimeout(pending.get(file));
+    pending.set(
+      file,
+      setTimeout(() => {
+        pending.delete(file);
+        rebuild();
+      }, 50)
+    );
+  };
+  const rebuild = (file: string) => {
+    try {
+      statSync(file);
+    } catch {
+      return; // The file was deleted.
+    }
+    buildFile(file);
+  };
+
+  const watchers: FSWatcher[] = [
+    watch(input, { recursive: directory }, (_event, name) => {
+      const file = directory && name ? join(input, name.toString()) : input;
+      if (isMarkdownFile(file)) schedule(file, () => rebuild(file));
+    }),
+  ];
+  if (options.template) {
+    const template = resolve(options.template);
+    watchers.push(
+      watch(template, () =>
+        schedule(template, () => {
+          // Some editors replace the file on save, so it may be missing for a moment.
+          if (!existsSync(template)) return;
+          converter = loadConverter();
+          const current = directory ? findMarkdownFiles(input) : [input];
+          current.forEach(rebuild);
+        })
+      )
+    );
+  }
+
+  process.stderr.write(
+    `Watching ${relative(process.cwd(), input) || "."} for changes...\n`
+  );
+  process.once("SIGINT", () => watchers.forEach((watcher) => watcher.close()));
+  return ok ? 0 : 1;
+}
+
+process.exitCode = main(process.argv.slice(2));
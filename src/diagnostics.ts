@@ -0,0 +1,85 @@
+import { TokenPosition } from "./token";
+
+/**
+ * Represents the kind of issue a diagnostic reports.
+ *
+ * @typedef {string} DiagnosticCode
+ * @property {"unclosed-fence"} unclosed-fence - A code fence is never closed.
+ * @property {"unterminated-link"} unterminated-link - A link or image destination (`[text](url`) is never closed.
+ * @property {"malformed-header"} malformed-header - A line looks like a header but has no space after the `#`s (e.g. `#NoSpace`).
+ * @property {"inconsistent-list-indent"} inconsistent-list-indent - A list item is indented to a level that no enclosing item uses.
+ * @property {"invalid-front-matter"} invalid-front-matter - The front matter could not be parsed, so it is parsed as Markdown.
+ * @property {"async-highlight"} async-highlight - The `highlight` option returned a Promise outside `parseAsync()`.
+ * @property {"parse-error"} parse-error - An unexpected error occurred while parsing, or the `highlight` option failed for a code block.
+ */
+export type DiagnosticCode =
+  | "unclosed-fence"
+  | "unterminated-link"
+  | "malformed-header"
+  | "inconsistent-list-indent"
+  | "invalid-front-matter"
+  | "async-highlight"
+  | "parse-error";
+
+/**
+ * Represents the severity of a diagnostic. Errors mean part of the document fell back to
+ * escaped text; warnings point at Markdown that parsed but is likely not what the author meant.
+ *
+ * @typedef {string} DiagnosticSeverity
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * Represents an issue found while parsing a document.
+ *
+ * @interface
+ */
+export interface Diagnostic {
+  /** The kind of issue. */
+  code: DiagnosticCode;
+
+  /** Whether the issue is an error or a warning. */
+  severity: DiagnosticSeverity;
+
+  /** A human-readable description of the issue. */
+  message: string;
+
+  /** The span of Markdown source the issue was found at, if it is known. */
+  position?: TokenPosition;
+}
+
+/**
+ * The error thrown in `strict` mode when parsing reports an error diagnostic.
+ *
+ * @class
+ */
+export class MarkyfyError extends Error {
+  /** The diagnostic that caused the error. */
+  readonly diagnostic: Diagnostic;
+
+  /**
+   * Creates an instance of MarkyfyError.
+   *
+   * @param {Diagnostic} diagnostic - The diagnostic that caused the error.
+   */
+  constructor(diagnostic: Diagnostic) {
+    const start = diagnostic.position?.start;
+    super(
+      start
+        ? `${diagnostic.message} (line ${start.line}, column ${start.column})`
+        : diagnostic.message
+    );
+    this.name = "MarkyfyError";
+    this.diagnostic = diagnostic;
+  }
+
+  /** The kind of issue that caused the error. */
+  get code(): DiagnosticCode {
+    return this.diagnostic.code;
+  }
+
+  /** The span of Markdown source the error was found at, if it is known. */
+  get position(): TokenPosition | undefined {
+    return this.diagnostic.position;
+  }
+}
@@ -0,0 +1,80 @@
+import { Token } from "./token";
+
+/**
+ * Represents an edit of a Markdown document: `deleteCount` characters at `offset`
+ * are replaced by `text`.
+ *
+ * @interface
+ */
+export interface TextEdit {
+  /** The 0-based offset of the edit in the previous document. */
+  offset: number;
+
+  /** The number of characters removed at `offset`. */
+  deleteCount: number;
+
+  /** The text inserted at `offset`. */
+  text: string;
+}
+
+/**
+ * Represents the result of `Markyfy.relex()`: the edited document, its tokens and the top-level
+ * blocks that were replaced. The blocks in `removed` of the previous tokens are replaced by the
+ * blocks in `changed` of the new tokens; all other blocks are the previous token objects.
+ *
+ * @interface
+ */
+export interface RelexResult {
+  /** The edited Markdown document. */
+  markdown: string;
+
+  /** The block-level tokens of the edited document. */
+  tokens: Token[];
+
+  /** The indices of the new blocks in `tokens`, in ascending order. */
+  changed: number[];
+
+  /** The indices of the replaced blocks in the previous tokens, in ascending order. */
+  removed: number[];
+}
+
+/**
+ * Applies an edit to a document.
+ *
+ * @param {string} markdown - The document.
+ * @param {TextEdit} edit - The edit to apply.
+ * @returns {string} The edited document.
+ * @throws {RangeError} If the edit does not lie within the document.
+ */
+export function applyEdit(markdown: string, edit: TextEdit): string {
+  const { offset, deleteCount, text } = edit;
+  if (
+    !Number.isInteger(offset) ||
+    !Number.isInteger(deleteCount) ||
+    offset < 0 ||
+    deleteCount < 0 ||
+    offset + deleteCount > markdown.length
+  ) {
+    throw new RangeError(
+      `Edit at ${offset} removing ${deleteCount} characters is outside the document`
+    );
+  }
+  return (
+    markdown.slice(0, offset) + text + markdown.slice(offset + deleteCount)
+  );
+}
+
+/**
+ * Finds the 1-based line number of an offset in a document.
+ *
+ * @param {string} markdown - The document.
+ * @param {number} offset - The 0-based offset.
+ * @returns {number} The line number.
+ */
+export function lineAt(markdown: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (markdown[i] === "\n") line++;
+  }
+  return line;
+}
@@ -0,0 +1,144 @@
+import { Renderer } from "./renderer";
+import { Position, Token } from "./token";
+
+/**
+ * Represents the helpers passed to block-level tokenizers for lexing nested content.
+ *
+ * @interface
+ */
+export interface BlockTokenizerContext {
+  /**
+   * Lexes Markdown into block-level tokens, e.g. the body of a custom container.
+   * `startLine` is the 1-based line of `lines` the Markdown starts at, used to compute token positions.
+   */
+  lexBlocks(markdown: string, startLine?: number): Token[];
+
+  /**
+   * Lexes inline Markdown, e.g. the title of a custom container.
+   * `start` is the position of the first character of `text` within `lines`, used to compute token positions.
+   */
+  lexInline(text: string, start?: Position): Token[];
+}
+
+/**
+ * Represents the helpers passed to inline tokenizers for lexing nested content.
+ *
+ * @interface
+ */
+export interface InlineTokenizerContext {
+  /**
+   * Lexes inline Markdown, e.g. the label of a custom link.
+   * `offset` is the offset of `text` within the text being tokenized, used to compute token positions.
+   */
+  lexInline(text: string, offset?: number): Token[];
+}
+
+/**
+ * Represents a tokenizer for block-level syntax, tried at the start of every block.
+ *
+ * Tokenizers run in ascending `priority` order, and the first one returning a token wins.
+ * The built-in tokenizers run at: header 100, blockquote 200, code_block 300, math_block 350, table 400, thematic_break 450,
+ * list 500, html_block 600, footnote_definition 650, definition 700, toc 800.
+ * Consecutive lines no tokenizer claims become one paragraph.
+ *
+ * @interface
+ */
+export interface BlockTokenizer {
+  /**
+   * The priority of the tokenizer relative to the built-in ones. Extension tokenizers run before
+   * built-in tokenizers of equal priority.
+   *
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Tries to tokenize the block starting at `lines[startIndex]`.
+   * Tokens without a `position` are assigned one spanning the consumed lines.
+   *
+   * @param {string[]} lines - The lines of the document being tokenized.
+   * @param {number} startIndex - The index of the line the block would start at.
+   * @param {BlockTokenizerContext} context - Helpers for lexing nested content.
+   * @returns The token and the index of the last line it consumed, or `undefined` if the syntax does not start here.
+   */
+  tokenize(
+    lines: string[],
+    startIndex: number,
+    context: BlockTokenizerContext
+  ): { token: Token; newIndex: number } | undefined;
+}
+
+/**
+ * Represents a tokenizer for inline syntax, tried at every position of inline text.
+ *
+ * Tokenizers run in ascending `priority` order, and the first one returning a token wins.
+ * The built-in tokenizers run at: code 400, math_inline 410, footnote_ref 440, image 450, link 500, autolink 600, html_inline 700.
+ * Backslash escapes are handled before any tokenizer runs, and emphasis (`bold`, `italic`, `strikethrough`)
+ * is resolved from the delimiter runs left over once no tokenizer matches.
+ *
+ * @interface
+ */
+export interface InlineTokenizer {
+  /**
+   * The priority of the tokenizer relative to the built-in ones. Extension tokenizers run before
+   * built-in tokenizers of equal priority.
+   *
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Tries to tokenize the inline syntax starting at `text[index]`.
+   * Tokens without a `position` are assigned one spanning the consumed text.
+   *
+   * @param {string} text - The inline text being tokenized.
+   * @param {number} index - The offset the syntax would start at.
+   * @param {InlineTokenizerContext} context - Helpers for lexing nested content.
+   * @returns The token and the offset just past the text it consumed, or `undefined` if the syntax does not start here.
+   */
+  tokenize(
+    text: string,
+    index: number,
+    context: InlineTokenizerContext
+  ): { token: Token; end: number } | undefined;
+}
+
+/**
+ * Represents an extension that adds custom syntax to Markyfy, registered with `Markyfy.use()`.
+ * Extensions produce tokens of their own types and render them with their own renderer hooks.
+ *
+ * @interface
+ * @example
+ * const mentions: Extension = {
+ *   name: "mentions",
+ *   inline: [
+ *     {
+ *       tokenize: (text, index) => {
+ *         const match = /^@(\w+)/.exec(text.slice(index));
+ *         if (!match || /\w/.test(text[index - 1] || "")) return undefined;
+ *         return {
+ *           token: { type: "mention", raw: match[0], text: match[1] },
+ *           end: index + match[0].length,
+ *         };
+ *       },
+ *     },
+ *   ],
+ *   renderer: {
+ *     mention: (token, { escapeHtml }) =>
+ *       `<a class="mention" href="/users/${escapeHtml(token.text || "")}">@${escapeHtml(token.text || "")}</a>`,
+ *   },
+ * };
+ */
+export interface Extension {
+  /** The name of the extension. */
+  name: string;
+
+  /** Tokenizers for block-level syntax. */
+  block?: BlockTokenizer[];
+
+  /** Tokenizers for inline syntax. */
+  inline?: InlineTokenizer[];
+
+  /** Renderer hooks for the token types the extension produces. */
+  renderer?: Renderer;
+}
@@ -0,0 +1,347 @@
+/**
+ * Represents the format of a document's front matter, as given by its fences:
+ * `---` for YAML and `+++` for TOML.
+ *
+ * @typedef {string} FrontMatterFormat
+ * @property {"yaml"} yaml - Front matter fenced by `---` lines.
+ * @property {"toml"} toml - Front matter fenced by `+++` lines.
+ */
+export type FrontMatterFormat = "yaml" | "toml";
+
+/**
+ * Represents a function that parses the source of a document's front matter.
+ * Throwing an error marks the block as not being front matter, so it is parsed as Markdown.
+ *
+ * @callback FrontMatterParser
+ * @param {string} source - The front matter between the fences.
+ * @param {FrontMatterFormat} format - The format of the front matter.
+ * @returns {Record<string, unknown>} The parsed front matter.
+ */
+export type FrontMatterParser = (
+  source: string,
+  format: FrontMatterFormat
+) => Record<string, unknown>;
+
+/**
+ * Represents the result of `Markyfy.parseWithMeta`.
+ *
+ * @interface
+ */
+export interface ParseWithMetaResult {
+  /** The resulting HTML, without the front matter. */
+  html: string;
+
+  /** The parsed front matter, or an empty object if the document has none. */
+  meta: Record<string, unknown>;
+}
+
+/**
+ * Parses front matter with the built-in parsers, which support a minimal subset of each format.
+ *
+ * YAML: `key: value` mappings nested by indentation, `- item` sequences, `[a, b]` flow
+ * sequences, `|` and `>` block scalars, quoted strings, numbers, booleans, `null`/`~` and
+ * `#` comments. TOML: `key = value` pairs, `[table]` headers with dotted names, strings,
+ * numbers, booleans, arrays and `#` comments. Dates are kept as strings in both formats.
+ * The keys `__proto__`, `constructor` and `prototype` are rejected in both formats.
+ *
+ * @param {string} source - The front matter between the fences.
+ * @param {FrontMatterFormat} format - The format of the front matter.
+ * @returns {Record<string, unknown>} The parsed front matter.
+ * @throws {Error} If the source is not valid in the supported subset.
+ */
+export function parseFrontMatter(
+  source: string,
+  format: FrontMatterFormat
+): Record<string, unknown> {
+  return format === "toml" ? parseToml(source) : parseYaml(source);
+}
+
+/**
+ * Keys that would change the prototype of the parsed objects instead of defining a property.
+ */
+const RESERVED_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Defines a key of a parsed mapping or table.
+ *
+ * @param {Record<string, unknown>} target - The mapping or table.
+ * @param {string} key - The key.
+ * @param {unknown} value - The value.
+ * @param {number} line - The line number, for error messages.
+ * @throws {Error} If the key is reserved.
+ */
+function setKey(
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown,
+  line: number
+) {
+  if (RESERVED_KEYS.has(key)) {
+    throw new Error(`Reserved key "${key}" on line ${line}`);
+  }
+  target[key] = value;
+}
+
+/**
+ * A line of YAML with its indentation, stripped of comments and trailing whitespace.
+ */
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+/**
+ * Parses the YAML subset described in {@link parseFrontMatter}.
+ *
+ * @param {string} source - The YAML source.
+ * @returns {Record<string, unknown>} The parsed mapping.
+ */
+function parseYaml(source: string): Record<string, unknown> {
+  const lines: YamlLine[] = source.split("\n").map((line) => ({
+    indent: line.length - line.trimStart().length,
+    text: line.trim(),
+  }));
+  const state = { index: 0 };
+  const value = parseYamlBlock(lines, state, 0);
+
+  skipYamlBlankLines(lines, state);
+  if (state.index < lines.length) {
+    throw new Error(`Unexpected YAML on line ${state.index + 1}`);
+  }
+  if (value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("YAML front matter must be a mapping");
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Advances past blank and comment-only lines.
+ *
+ * @param {YamlLine[]} lines - The lines of the document.
+ * @param {{ index: number }} state - The index of the current line.
+ */
+function skipYamlBlankLines(lines: YamlLine[], state: { index: number }) {
+  while (
+    state.index < lines.length &&
+    (!lines[state.index].text || lines[state.index].text.startsWith("#"))
+  ) {
+    state.index++;
+  }
+}
+
+/**
+ * Parses a block mapping or sequence whose entries are indented by `indent` or more spaces.
+ *
+ * @param {YamlLine[]} lines - The lines of the document.
+ * @param {{ index: number }} state - The index of the current line, advanced past the block.
+ * @param {number} indent - The minimum indentation of the block.
+ * @returns {unknown} The parsed mapping or sequence, or null if the block is empty.
+ */
+function parseYamlBlock(
+  lines: YamlLine[],
+  state: { index: number },
+  indent: number
+): unknown {
+  skipYamlBlankLines(lines, state);
+  if (state.index >= lines.length || lines[state.index].indent < indent) {
+    return null;
+  }
+
+  const blockIndent = lines[state.index].indent;
+  const isSequence = /^-(\s|$)/.test(lines[state.index].text);
+  const result: Record<string, unknown> | unknown[] = isSequence ? [] : {};
+
+  while (state.index < lines.length) {
+    skipYamlBlankLines(lines, state);
+    if (state.index >= lines.length) break;
+
+    const line = lines[state.index];
+    if (line.indent < blockIndent) break;
+    if (line.indent > blockIndent) {
+      throw new Error(`Unexpected indentation on line ${state.index + 1}`);
+    }
+
+    if (isSequence) {
+      const item = line.text.match(/^-(?:\s+(.*))?$/);
+      if (!item) throw new Error(`Expected "- " on line ${state.index + 1}`);
+      state.index++;
+      (result as unknown[]).push(
+        item[1]
+          ? parseYamlValue(item[1], lines, state, blockIndent)
+          : parseYamlBlock(lines, state, blockIndent + 1)
+      );
+      continue;
+    }
+
+    const entry = line.text.match(
+      /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"][^:#]*?)\s*:(?:\s+(.*))?$/
+    );
+    if (!entry)
+      throw new Error(`Expected "key: value" on line ${state.index + 1}`);
+    const key = String(parseYamlScalar(entry[1]));
+    const keyLine = ++state.index;
+    setKey(
+      result as Record<string, unknown>,
+      key,
+      entry[2]
+        ? parseYamlValue(entry[2], lines, state, blockIndent)
+        : parseYamlBlock(lines, state, blockIndent + 1),
+      keyLine
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Parses the value after a `key:` or `- ` marker: a block scalar, a flow sequence or a scalar.
+ *
+ * @param {string} text - The text after the marker.
+ * @param {YamlLine[]} lines - The lines of the document, for block scalars.
+ * @param {{ index: number }} state - The index of the next line, advanced past a block scalar.
+ * @param {number} indent - The indentation of the line the value started on.
+ * @returns {unknown} The parsed value.
+ */
+function parseYamlValue(
+  text: string,
+  lines: YamlLine[],
+  state: { index: number },
+  indent: number
+): unknown {
+  const value = stripYamlComment(text);
+
+  if (value === "|" || value === ">") {
+    const content: string[] = [];
+    while (
+      state.index < lines.length &&
+      (!lines[state.index].text || lines[state.index].indent > indent)
+    ) {
+      content.push(lines[state.index].text);
+      state.index++;
+    }
+    while (content.length && !content[content.length - 1]) content.pop();
+    const literal = content.join("\n");
+    return `${
+      value === "|" ? literal : literal.replace(/([^\n])\n(?=[^\n])/g, "$1 ")
+    }\n`;
+  }
+
+  if (value.startsWith("[") && value.endsWith("]")) {
+    const inner = value.slice(1, -1).trim();
+    return inner
+      ? (inner.match(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,\s][^,]*/g) || [])
+          .map((item) => item.trim())
+          .filter(Boolean)
+          .map(parseYamlScalar)
+      : [];
+  }
+
+  return parseYamlScalar(value);
+}
+
+/**
+ * Removes a trailing `# comment` from a value, unless the `#` is inside quotes.
+ *
+ * @param {string} text - The value text.
+ * @returns {string} The value without the comment.
+ */
+function stripYamlComment(text: string): string {
+  const quoted = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*(?:#.*)?$/);
+  if (quoted) return quoted[1];
+  return text.replace(/\s+#.*$/, "").trim();
+}
+
+/**
+ * Parses a YAML scalar: a quoted string, a number, a boolean, null or a plain string.
+ *
+ * @param {string} text - The scalar text.
+ * @returns {unknown} The parsed value.
+ */
+function parseYamlScalar(text: string): unknown {
+  if (/^"(?:[^"\\]|\\.)*"$/.test(text)) {
+    return JSON.parse(text.replace(/\\'/g, "'"));
+  }
+  if (/^'(?:[^']|'')*'$/.test(text)) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^(?:null|Null|NULL|~)?$/.test(text)) return null;
+  if (/^(?:true|True|TRUE)$/.test(text)) return true;
+  if (/^(?:false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+/**
+ * Parses the TOML subset described in {@link parseFrontMatter}.
+ *
+ * @param {string} source - The TOML source.
+ * @returns {Record<string, unknown>} The parsed table.
+ */
+function parseToml(source: string): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+  let table = root;
+
+  source.split("\n").forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+
+    const header = line.match(/^\[\s*([\w.-]+)\s*\](?:\s*#.*)?$/);
+    if (header) {
+      table = header[1].split(".").reduce((parent, key) => {
+        const child = Object.prototype.hasOwnProperty.call(parent, key)
+          ? parent[key]
+          : undefined;
+        if (typeof child === "object" && child !== null) {
+          return child as Record<string, unknown>;
+        }
+        const created: Record<string, unknown> = {};
+        setKey(parent, key, created, index + 1);
+        return created;
+      }, root);
+      return;
+    }
+
+    const pair = line.match(/^("(?:[^"\\]|\\.)*"|[\w-]+)\s*=\s*(.+)$/);
+    if (!pair) throw new Error(`Expected "key = value" on line ${index + 1}`);
+    const key = pair[1].startsWith('"') ? JSON.parse(pair[1]) : pair[1];
+    setKey(table, key, parseTomlValue(pair[2].trim(), index + 1), index + 1);
+  });
+
+  return root;
+}
+
+/**
+ * Parses a TOML value: a string, a number, a boolean, a date (kept as a string) or an array.
+ *
+ * @param {string} text - The value text, possibly followed by a comment.
+ * @param {number} line - The line number, for error messages.
+ * @returns {unknown} The parsed value.
+ */
+function parseTomlValue(text: string, line: number): unknown {
+  const value = text.match(
+    /^("(?:[^"\\]|\\.)*"|'[^']*'|\[.*\]|[^#\s]+)\s*(?:#.*)?$/
+  );
+  if (!value) throw new Error(`Invalid TOML value on line ${line}`);
+  const token = value[1];
+
+  if (token.startsWith('"')) return JSON.parse(token);
+  if (token.startsWith("'")) return token.slice(1, -1);
+  if (token.startsWith("[")) {
+    const inner = token.slice(1, -1).trim();
+    return inner
+      ? (inner.match(/"(?:[^"\\]|\\.)*"|'[^']*'|[^,\s]+/g) || []).map((item) =>
+          parseTomlValue(item, line)
+        )
+      : [];
+  }
+  if (token === "true") return true;
+  if (token === "false") return false;
+  if (/^[-+]?\d[\d_]*(?:\.\d+)?(?:e[-+]?\d+)?$/i.test(token)) {
+    return Number(token.replace(/_/g, ""));
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(token)) return token;
+  throw new Error(`Invalid TOML value on line ${line}`);
+}
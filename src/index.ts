@@ -1,2 +1,46 @@
+export { MarkyfyError } from "./diagnostics";
+export { parseFrontMatter } from "./frontMatter";
 export { Markyfy } from "./markyfy";
+export { Sanitizer, defaultSanitizerPolicy } from "./sanitizer";
+export { slugify } from "./slug";
+export { MarkyfyStream } from "./stream";
 export { SyntaxHighlighter } from "./syntaxHighlighter";
+export { getThemeCss } from "./theme";
+export type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+} from "./diagnostics";
+export type { RelexResult, TextEdit } from "./edit";
+export type {
+  BlockTokenizer,
+  BlockTokenizerContext,
+  Extension,
+  InlineTokenizer,
+  InlineTokenizerContext,
+} from "./extension";
+export type {
+  FrontMatterFormat,
+  FrontMatterParser,
+  ParseWithMetaResult,
+} from "./frontMatter";
+export type { HighlightFunction, HtmlPolicy, ParserOptions } from "./parser";
+export type { Renderer, RendererContext, RendererHook } from "./renderer";
+export type { SanitizerPolicy } from "./sanitizer";
+export type {
+  AutoHighlightResult,
+  HighlightToken,
+  LanguageDefinition,
+  SyntaxRule,
+} from "./syntaxHighlighter";
+export type { ThemeName } from "./theme";
+export type { TocEntry, TocOptions } from "./toc";
+export type {
+  CodeBlockMeta,
+  ExtensionTokenType,
+  Position,
+  TableAlign,
+  Token,
+  TokenPosition,
+  TokenType,
+} from "./token";
@@ -0,0 +1,30 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+
+/**
+ * The Bash grammar, also registered as `sh`, `shell` and `zsh`.
+ */
+export const bash: LanguageDefinition = {
+  name: "bash",
+  aliases: ["sh", "shell", "zsh"],
+  rules: [
+    { pattern: /(?<=^|\s)#.*$/gm, token: "comment" },
+    { pattern: /"(?:[^"\\]|\\.)*"|'[^']*'/g, token: "string" },
+    {
+      pattern: /\$(?:\{[^}]*\}|[a-zA-Z_][a-zA-Z0-9_]*|[0-9@*#?$!-])/g,
+      token: "variable",
+    },
+    {
+      pattern:
+        /\b(if|then|else|elif|fi|for|while|until|do|done|case|esac|in|function|return|exit|export|local|readonly|source)\b/g,
+      token: "keyword",
+    },
+    {
+      pattern:
+        /\b(echo|cd|ls|cat|grep|sed|awk|mkdir|rm|cp|mv|chmod|curl|git|npm|npx|yarn|pnpm|node)\b/g,
+      token: "function",
+    },
+    { pattern: /(?<=^|\s)--?[a-zA-Z][\w-]*/gm, token: "property" },
+    { pattern: /\b\d+\b/g, token: "number" },
+    { pattern: /&&|\|\||[|;&<>]/g, token: "operator" },
+  ],
+};
@@ -0,0 +1,30 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+
+/**
+ * The CSS grammar, also registered as `scss` and `less` for their CSS subset.
+ * Names only match from their first character and as a whole (`(?=(...))\1` cannot backtrack),
+ * and the lookaheads for the `{` after a selector or the `;` after a value are bounded, so a
+ * long line without them is scanned in linear time.
+ */
+export const css: LanguageDefinition = {
+  name: "css",
+  aliases: ["scss", "less"],
+  rules: [
+    { pattern: /\/\*[\s\S]*?\*\//g, token: "comment" },
+    { pattern: /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, token: "string" },
+    { pattern: /@[\w-]+/g, token: "keyword" },
+    {
+      pattern: /(?<![-a-zA-Z])(?=([-a-zA-Z]+))\1(?=\s*:[^;{}\n]{0,1000}[;}])/g,
+      token: "property",
+    },
+    { pattern: /[.#](?=([-\w]+))\1(?=[^{};]{0,1000}\{)/g, token: "class" },
+    { pattern: /#[\da-f]{3,8}\b/gi, token: "number" },
+    {
+      pattern: /-?\b\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?\b/g,
+      token: "number",
+    },
+    { pattern: /!important\b/g, token: "keyword" },
+    { pattern: /(?<![-\w])(?=([a-z-]+))\1(?=\()/g, token: "function" },
+    { pattern: /[{}();:,]/g, token: "punctuation" },
+  ],
+};
@@ -0,0 +1,22 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+
+/**
+ * The unified diff grammar, also registered as `patch`. Marks file headers, hunk headers,
+ * and inserted, deleted and context lines. Use `diff-<lang>` (e.g., `diff-ts`) to also
+ * highlight the content of the lines in another registered language.
+ */
+export const diff: LanguageDefinition = {
+  name: "diff",
+  aliases: ["patch"],
+  rules: [
+    {
+      pattern:
+        /^(?:(?:\+\+\+|---)(?: |$)|(?:diff|index|new file|deleted file)\b).*$/gm,
+      token: "comment",
+    },
+    { pattern: /^@@.*$/gm, token: "hunk", relevance: 2 },
+    { pattern: /^\+.*$/gm, token: "inserted" },
+    { pattern: /^-.*$/gm, token: "deleted" },
+    { pattern: /^ .*$/gm, token: "context", relevance: 0 },
+  ],
+};
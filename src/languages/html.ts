@@ -0,0 +1,23 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+
+/**
+ * The HTML grammar, also registered as `xml` and `svg`.
+ * Attribute values only look back for their `=` from a quote, and attribute names only match
+ * from their first character and as a whole, so long lines are scanned in linear time.
+ */
+export const html: LanguageDefinition = {
+  name: "html",
+  aliases: ["xml", "svg"],
+  rules: [
+    { pattern: /<!--[\s\S]*?-->/g, token: "comment" },
+    { pattern: /<!DOCTYPE[^>]*>/gi, token: "keyword" },
+    { pattern: /<\/?[a-zA-Z][\w:-]*/g, token: "tag" },
+    { pattern: /\/?>/g, token: "tag" },
+    { pattern: /(?=["'])(?<==\s*)(?:"[^"]*"|'[^']*')/g, token: "string" },
+    {
+      pattern: /(?<![\w:.-])(?=([a-zA-Z_:][\w:.-]*))\1(?==)/g,
+      token: "attr-name",
+    },
+    { pattern: /&(?:#\d+|#x[\da-f]+|[a-z]+);/gi, token: "number" },
+  ],
+};
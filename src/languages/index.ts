@@ -0,0 +1,41 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+import { bash } from "./bash";
+import { css } from "./css";
+import { diff } from "./diff";
+import { html } from "./html";
+import { javascript } from "./javascript";
+import { json } from "./json";
+import { python } from "./python";
+import { sql } from "./sql";
+import { typescript } from "./typescript";
+import { yaml } from "./yaml";
+
+export {
+  bash,
+  css,
+  diff,
+  html,
+  javascript,
+  json,
+  python,
+  sql,
+  typescript,
+  yaml,
+};
+
+/**
+ * Every built-in grammar. Pass it to `languages` to highlight all supported languages,
+ * or import single grammars from `markyfy/languages/<name>` to keep bundles small.
+ */
+export const languages: LanguageDefinition[] = [
+  bash,
+  css,
+  diff,
+  html,
+  javascript,
+  json,
+  python,
+  sql,
+  typescript,
+  yaml,
+];
@@ -0,0 +1,35 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+
+/**
+ * The JavaScript grammar, also registered as `js`, `jsx`, `mjs` and `cjs`.
+ * Function names only match from their first character and as a whole, so a long run of
+ * `$`-joined identifiers is scanned in linear time.
+ */
+export const javascript: LanguageDefinition = {
+  name: "javascript",
+  aliases: ["js", "jsx", "mjs", "cjs"],
+  rules: [
+    { pattern: /\/\/.*$|\/\*[\s\S]*?\*\//gm, token: "comment" },
+    {
+      pattern: /'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`(?:[^`\\]|\\.)*`/g,
+      token: "string",
+    },
+    {
+      pattern:
+        /\b(function|class|extends|new|this|super|return|if|else|for|while|do|switch|case|break|continue|try|catch|finally|throw|async|await|yield|import|export|from|default|const|let|var|typeof|instanceof|in|of|delete|void)\b/g,
+      token: "keyword",
+    },
+    { pattern: /\b(true|false|null|undefined)\b/g, token: "boolean" },
+    {
+      pattern: /\b\d+\.?\d*(?:e[+-]?\d+)?\b|\b0x[\da-f]+\b/gi,
+      token: "number",
+    },
+    { pattern: /\b[A-Z][0-9a-zA-Z_$]*\b/g, token: "class", relevance: 0 },
+    {
+      pattern: /(?<![0-9a-zA-Z_$])(?=([a-zA-Z_$][0-9a-zA-Z_$]*))\1(?=\()/g,
+      token: "function",
+    },
+    { pattern: /=>|[-+*/%=!<>&|^~?:]+/g, token: "operator" },
+    { pattern: /[{}[\]();,.]/g, token: "punctuation" },
+  ],
+};
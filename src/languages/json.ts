@@ -0,0 +1,17 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+
+/**
+ * The JSON grammar, also registered as `jsonc` (comments are highlighted too).
+ */
+export const json: LanguageDefinition = {
+  name: "json",
+  aliases: ["jsonc"],
+  rules: [
+    { pattern: /\/\/.*$|\/\*[\s\S]*?\*\//gm, token: "comment" },
+    { pattern: /"(?:[^"\\]|\\.)*"(?=\s*:)/g, token: "property" },
+    { pattern: /"(?:[^"\\]|\\.)*"/g, token: "string" },
+    { pattern: /-?\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/gi, token: "number" },
+    { pattern: /\b(true|false|null)\b/g, token: "boolean" },
+    { pattern: /[{}[\],:]/g, token: "punctuation" },
+  ],
+};
@@ -0,0 +1,29 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+
+/**
+ * The Python grammar, also registered as `py`.
+ */
+export const python: LanguageDefinition = {
+  name: "python",
+  aliases: ["py"],
+  rules: [
+    { pattern: /#.*$/gm, token: "comment" },
+    {
+      pattern:
+        /[rbfu]{0,2}(?:"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')/gi,
+      token: "string",
+    },
+    { pattern: /@[\w.]+/g, token: "function" },
+    {
+      pattern:
+        /\b(and|as|assert|async|await|break|class|continue|def|del|elif|else|except|finally|for|from|global|if|import|in|is|lambda|nonlocal|not|or|pass|raise|return|try|while|with|yield)\b/g,
+      token: "keyword",
+    },
+    { pattern: /\b(True|False|None)\b/g, token: "boolean" },
+    { pattern: /\b\d+(?:\.\d+)?(?:e[+-]?\d+)?j?\b/gi, token: "number" },
+    { pattern: /\b[A-Z][a-zA-Z0-9_]*\b/g, token: "class", relevance: 0 },
+    { pattern: /\b[a-zA-Z_][a-zA-Z0-9_]*(?=\()/g, token: "function" },
+    { pattern: /[-+*/%=!<>&|^~]+/g, token: "operator" },
+    { pattern: /[{}[\]();,.:]/g, token: "punctuation" },
+  ],
+};
@@ -0,0 +1,27 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+
+/**
+ * The SQL grammar. Keywords are matched case-insensitively.
+ */
+export const sql: LanguageDefinition = {
+  name: "sql",
+  rules: [
+    { pattern: /--.*$|\/\*[\s\S]*?\*\//gm, token: "comment" },
+    { pattern: /'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`/g, token: "string" },
+    {
+      pattern:
+        /\b(select|from|where|and|or|not|insert|into|values|update|set|delete|create|alter|drop|table|index|view|join|inner|left|right|outer|full|cross|on|as|group|by|order|having|limit|offset|union|all|distinct|case|when|then|else|end|is|in|like|between|exists|primary|key|foreign|references|default|unique|with|returning|asc|desc)\b/gi,
+      token: "keyword",
+    },
+    { pattern: /\b(true|false|null)\b/gi, token: "boolean" },
+    {
+      pattern:
+        /\b(int|integer|bigint|smallint|serial|text|varchar|char|boolean|date|time|timestamp|numeric|decimal|real|float|json|jsonb|uuid)\b/gi,
+      token: "type",
+    },
+    { pattern: /\b\d+(?:\.\d+)?\b/g, token: "number" },
+    { pattern: /\b[a-zA-Z_][\w]*(?=\()/g, token: "function" },
+    { pattern: /[-+*/%=<>!|]+/g, token: "operator" },
+    { pattern: /[();,.]/g, token: "punctuation" },
+  ],
+};
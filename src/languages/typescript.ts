@@ -0,0 +1,25 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+import { javascript } from "./javascript";
+
+/**
+ * The TypeScript grammar, also registered as `ts` and `tsx`.
+ * Extends the JavaScript grammar with type annotations and TypeScript keywords.
+ */
+export const typescript: LanguageDefinition = {
+  name: "typescript",
+  aliases: ["ts", "tsx"],
+  rules: [
+    ...javascript.rules.slice(0, 2),
+    {
+      pattern:
+        /\b(interface|type|enum|namespace|declare|abstract|implements|private|protected|public|readonly|static|keyof|infer|is|as|satisfies)\b/g,
+      token: "keyword",
+    },
+    {
+      pattern:
+        /\b(string|number|boolean|bigint|symbol|object|unknown|any|never|void)\b/g,
+      token: "type",
+    },
+    ...javascript.rules.slice(2),
+  ],
+};
@@ -0,0 +1,24 @@
+import type { LanguageDefinition } from "../syntaxHighlighter";
+
+/**
+ * The YAML grammar, also registered as `yml`.
+ * Keys only match from their first character and as a whole (`(?=(...))\1` cannot backtrack),
+ * so a long word is scanned in linear time.
+ */
+export const yaml: LanguageDefinition = {
+  name: "yaml",
+  aliases: ["yml"],
+  rules: [
+    { pattern: /(?<=^|\s)#.*$/gm, token: "comment" },
+    { pattern: /^---$|^\.\.\.$/gm, token: "punctuation" },
+    {
+      pattern: /(?<![\w.-])(?=([\w.-]+))\1(?=\s*:(?:\s|$))/g,
+      token: "property",
+    },
+    { pattern: /"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'/g, token: "string" },
+    { pattern: /[&*][\w-]+|![\w!]*/g, token: "variable" },
+    { pattern: /\b(true|false|yes|no|on|off|null)\b|~/gi, token: "boolean" },
+    { pattern: /-?\b\d+(?:\.\d+)?\b/g, token: "number" },
+    { pattern: /[-:|>[\]{},]/g, token: "punctuation" },
+  ],
+};
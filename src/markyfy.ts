@@ -1,6 +1,166 @@
+import {
+  BlockTokenizer,
+  BlockTokenizerContext,
+  Extension,
+  InlineTokenizer,
+  InlineTokenizerContext,
+} from "./extension";
+import {
+  FrontMatterFormat,
+  parseFrontMatter,
+  ParseWithMetaResult,
+} from "./frontMatter";
+import {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  MarkyfyError,
+} from "./diagnostics";
+import { applyEdit, lineAt, RelexResult, TextEdit } from "./edit";
 import { ParserOptions } from "./parser";
+import { Renderer } from "./renderer";
+import { Sanitizer } from "./sanitizer";
+import { slugify } from "./slug";
 import { SyntaxHighlighter } from "./syntaxHighlighter";
-import { Token } from "./token";
+import { getThemeCss } from "./theme";
+import { buildToc, TocEntry } from "./toc";
+import {
+  CodeBlockMeta,
+  Position,
+  TableAlign,
+  Token,
+  TokenPosition,
+} from "./token";
+
+/**
+ * Matches a line that may open or close a block running to a closing line rather than to a
+ * blank line, in any container: a code fence, or a raw HTML block with an end condition
+ * (CommonMark HTML block types 1 and 2).
+ */
+const BLOCK_BOUNDARY =
+  /`{3,}|~{3,}|<(?:script|pre|style|textarea)(?:\s|>|$)|<\/(?:script|pre|style|textarea)>|<!--|-->/i;
+
+/**
+ * Prepended to the `id`s of filtered raw HTML, so that a document cannot reuse the ids of
+ * generated headers and footnotes or clobber globals through `window[id]`.
+ */
+const RAW_HTML_ID_PREFIX = "user-content-";
+
+/**
+ * Tag names that start an HTML block (CommonMark HTML block type 6).
+ */
+const HTML_BLOCK_TAGS = [
+  "address",
+  "article",
+  "aside",
+  "base",
+  "basefont",
+  "blockquote",
+  "body",
+  "caption",
+  "center",
+  "col",
+  "colgroup",
+  "dd",
+  "details",
+  "dialog",
+  "dir",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "frame",
+  "frameset",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "head",
+  "header",
+  "hr",
+  "html",
+  "iframe",
+  "legend",
+  "li",
+  "link",
+  "main",
+  "menu",
+  "menuitem",
+  "nav",
+  "noframes",
+  "ol",
+  "optgroup",
+  "option",
+  "p",
+  "param",
+  "search",
+  "section",
+  "summary",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "title",
+  "tr",
+  "track",
+  "ul",
+];
+
+/**
+ * Matches a thematic break, e.g. `---`, `***` or `_ _ _`.
+ */
+const THEMATIC_BREAK = /^ {0,3}([-*_])[ \t]*(?:\1[ \t]*){2,}$/;
+
+/**
+ * Matches a setext header underline, e.g. `===` or `---`.
+ */
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+
+/**
+ * Matches a non-blank line of an indented code block.
+ */
+const INDENTED_CODE = /^(?: {4}|\t| {0,3}\t)(?=.*\S)/;
+
+/**
+ * Matches the ASCII punctuation characters that can be backslash-escaped.
+ */
+const ASCII_PUNCTUATION = /^[!-\/:-@[-`{-~]$/;
+
+/**
+ * The deepest nesting of parentheses allowed in a link destination, as in cmark. Without a
+ * limit, a run of unclosed `[a](` would make every link scan to the end of the paragraph.
+ */
+const MAX_LINK_PAREN_DEPTH = 32;
+
+/**
+ * Represents a run of emphasis delimiters (`*`, `_` or `~`) awaiting a match.
+ *
+ * @interface
+ */
+interface Delimiter {
+  /** The text token holding the run's unmatched characters. */
+  token: Token;
+  /** The delimiter character. */
+  char: string;
+  /** The offset of the first character of the run. */
+  from: number;
+  /** The offset just past the last character of the run. */
+  to: number;
+  /** The number of characters of the run not yet matched. */
+  length: number;
+  /** Whether the run can open emphasis. */
+  canOpen: boolean;
+  /** Whether the run can close emphasis. */
+  canClose: boolean;
+}
 
 /**
  * Markyfy is a Markdown parser and syntax highlighter that converts Markdown text into HTML.
@@ -14,9 +174,27 @@ export class Markyfy {
    *
    * @param {ParserOptions} [options={}] - Configuration options for the parser.
    * @param {boolean} [options.gfm=true] - Enables GitHub Flavored Markdown (GFM) features.
-   * @param {boolean} [options.breaks=false] - Enables line breaks as `<br>` tags.
+   * @param {boolean} [options.breaks=false] - Renders every line ending within a paragraph as a `<br>` tag.
    * @param {boolean} [options.headerIds=true] - Enables automatic generation of IDs for headers.
-   * @param {boolean} [options.sanitize=true] - Sanitizes URLs to prevent XSS attacks.
+   * @param {boolean} [options.sanitize=true] - Sanitizes URLs and renderer output to prevent XSS attacks.
+   * @param {Partial<SanitizerPolicy>} [options.sanitizer={}] - Overrides for the sanitizer's allowlist policy.
+   * @param {HtmlPolicy} [options.html="filter"] - Controls how raw HTML in the Markdown source is rendered.
+   * @param {boolean} [options.lazyImages=false] - Adds `loading="lazy"` to rendered images.
+   * @param {Function} [options.rewriteUrl] - Rewrites the URLs of links and images before they are rendered.
+   * @param {boolean} [options.commonmark=false] - Follows the CommonMark spec for block-level parsing.
+   * @param {LanguageDefinition[]} [options.languages=[]] - Grammars to register with the syntax highlighter.
+   * @param {boolean | string[]} [options.autoDetect=false] - Detects the language of code blocks without one, optionally among the given languages.
+   * @param {HighlightFunction | null} [options.highlight=null] - Replaces the built-in syntax highlighter with an external one.
+   * @param {Function} [options.slugify] - Converts header text into the slug used for its `id`.
+   * @param {TocOptions} [options.toc={}] - Configures the table of contents and the `[[toc]]` placeholder.
+   * @param {boolean} [options.math=false] - Parses `$...$` and `$$...$$` as math.
+   * @param {boolean} [options.frontMatter=true] - Detects YAML or TOML front matter at the start of the document.
+   * @param {FrontMatterParser} [options.parseFrontMatter] - Parses the front matter.
+   * @param {Function | null} [options.onWarning=null] - Called with every issue found while parsing.
+   * @param {boolean} [options.strict=false] - Throws a `MarkyfyError` for the first error instead of falling back to escaped text.
+   * @param {Renderer} [options.renderer={}] - Overrides the HTML output for individual token types.
+   * @param {boolean} [options.injectStyles=false] - Prepends the theme's CSS to the rendered HTML in a single `<style>` element.
+   * @param {ThemeName} [options.theme="one-dark"] - The theme whose CSS is injected when `injectStyles` is enabled.
    */
   constructor(options: ParserOptions = {}) {
     this.options = {
@@ -24,9 +202,61 @@ export class Markyfy {
       breaks: false,
       headerIds: true,
       sanitize: true,
+      renderer: {},
+      injectStyles: false,
+      theme: "one-dark",
+      sanitizer: {},
+      html: "filter",
+      lazyImages: false,
+      rewriteUrl: (url) => url,
+      commonmark: false,
+      languages: [],
+      autoDetect: false,
+      highlight: null,
+      slugify,
+      toc: {},
+      math: false,
+      frontMatter: true,
+      parseFrontMatter,
+      onWarning: null,
+      strict: false,
       ...options,
     };
-    this.syntaxHighlighter = new SyntaxHighlighter();
+    this.syntaxHighlighter = new SyntaxHighlighter(this.options.languages);
+    this.sanitizer = new Sanitizer(this.options.sanitizer);
+    this.blockTokenizers = this.createBlockTokenizers();
+    this.inlineTokenizers = this.createInlineTokenizers();
+  }
+
+  /**
+   * Registers an extension that adds custom block-level and inline syntax.
+   * The extension's tokenizers are merged with the built-in ones by priority,
+   * and its renderer hooks are used for the token types it produces.
+   *
+   * @param {Extension} extension - The extension to register.
+   * @returns {this} The Markyfy instance, for chaining.
+   */
+  public use(extension: Extension): this {
+    const byPriority = (
+      a: { priority?: number },
+      b: { priority?: number }
+    ): number => (a.priority ?? 0) - (b.priority ?? 0);
+
+    this.extensions.push(extension);
+    this.blockTokenizers = [
+      ...this.extensions.flatMap((ext) => ext.block || []),
+      ...this.createBlockTokenizers(),
+    ].sort(byPriority);
+    this.inlineTokenizers = [
+      ...this.extensions.flatMap((ext) => ext.inline || []),
+      ...this.createInlineTokenizers(),
+    ].sort(byPriority);
+    this.extensionRenderers = {
+      ...this.extensionRenderers,
+      ...extension.renderer,
+    };
+
+    return this;
   }
 
   /**
@@ -37,16 +267,573 @@ export class Markyfy {
    */
   public parse(markdown: string): string {
     try {
-      const tokens = this.tokenize(markdown);
-      return this.tokensToHtml(tokens);
+      const tokens = this.lex(markdown);
+      return this.render(tokens);
+    } catch (error) {
+      this.fail(error);
+      return this.escapeHtml(markdown);
+    }
+  }
+
+  /**
+   * Parses the given Markdown text and converts it into HTML, awaiting the `highlight` option
+   * for every code block. All code blocks are highlighted in parallel; a block whose highlighter
+   * throws or rejects is rendered as escaped code and reported as a `parse-error`.
+   *
+   * @param {string} markdown - The Markdown text to parse.
+   * @returns {Promise<string>} A promise resolving to the resulting HTML.
+   */
+  public async parseAsync(markdown: string): Promise<string> {
+    try {
+      const tokens = this.lex(markdown);
+      const { highlight } = this.options;
+      const codeBlocks = highlight ? this.findCodeBlocks(tokens) : [];
+      const results = await Promise.allSettled(
+        codeBlocks.map(async (token) =>
+          highlight!(token.text || "", token.lang || "", token.meta)
+        )
+      );
+
+      this.highlighted = new Map(
+        codeBlocks.map((token, index) => [token, results[index]])
+      );
+      try {
+        return this.render(tokens);
+      } finally {
+        this.highlighted = undefined;
+      }
     } catch (error) {
-      console.error("Parsing error:", error);
+      this.fail(error);
       return this.escapeHtml(markdown);
     }
   }
 
+  /**
+   * Lexes the given Markdown text into a token tree without rendering it.
+   * Every token carries the `position` of its source text, so the tree can be
+   * inspected or transformed and then passed to {@link Markyfy.render}.
+   *
+   * @param {string} markdown - The Markdown text to lex.
+   * @returns {Token[]} An array of block-level tokens representing the document.
+   */
+  public lex(markdown: string): Token[] {
+    this.diagnostics = [];
+    const { frontMatter, body } = this.splitFrontMatter(markdown);
+    const { links, footnotes } = this.collectDefinitions(body);
+    this.definitions = links;
+    this.footnoteLabels = footnotes;
+    const tokens = this.tokenize(body);
+    this.flushDiagnostics();
+    return frontMatter ? [frontMatter, ...tokens] : tokens;
+  }
+
+  /**
+   * Lexes a document again after an edit, reusing the tokens of the top-level blocks the edit
+   * cannot affect. Lexing restarts at the block before the edit and stops at the first block
+   * after the edit that starts where a previous block started; the previous blocks from there
+   * on are reused, with their positions moved in place. The whole document is lexed again if
+   * the edit changes the front matter, a link or footnote definition, or a line that opens or
+   * closes a code fence, a math block or an HTML block running to a closing tag (e.g. `<pre>`).
+   *
+   * Only the tokens are incremental: header ids and footnote numbers are assigned when the tokens
+   * are rendered, so a reused block may render differently after the edit.
+   *
+   * @param {string} markdown - The previous Markdown text.
+   * @param {Token[]} tokens - The tokens of the previous text, as returned by {@link Markyfy.lex} or {@link Markyfy.relex}.
+   * @param {TextEdit} edit - The edit to the previous text.
+   * @returns {RelexResult} The edited text, its tokens, and the blocks that changed.
+   * @throws {RangeError} If the edit does not lie within the previous text.
+   */
+  public relex(markdown: string, tokens: Token[], edit: TextEdit): RelexResult {
+    const edited = applyEdit(markdown, edit);
+    const previous = this.splitFrontMatter(markdown);
+    this.diagnostics = [];
+    const { frontMatter, body } = this.splitFrontMatter(edited);
+    const definitions = this.collectDefinitions(body);
+    const previousDefinitions = this.collectDefinitions(previous.body);
+
+    const base = tokens[0]?.type === "front_matter" ? 1 : 0;
+    const blocks = tokens.slice(base);
+    const relexAll = (): RelexResult => {
+      const lexed = this.lex(edited);
+      return {
+        markdown: edited,
+        tokens: lexed,
+        changed: lexed.map((_, index) => index),
+        removed: tokens.map((_, index) => index),
+      };
+    };
+
+    const startLine = lineAt(markdown, edit.offset);
+    const endLine = lineAt(markdown, edit.offset + edit.deleteCount);
+    const lineDelta = edit.text.split("\n").length - 1 - (endLine - startLine);
+
+    // Opening or closing a fence, a math block or an HTML block such as `<pre>` changes how
+    // every line after it is lexed, up to the next such line.
+    const editedLines = [
+      ...markdown.split("\n").slice(startLine - 1, endLine),
+      ...edited.split("\n").slice(startLine - 1, endLine + lineDelta),
+    ];
+
+    if (
+      editedLines.some(
+        (line) =>
+          BLOCK_BOUNDARY.test(line) ||
+          (this.options.math && line.includes("$$"))
+      ) ||
+      frontMatter?.raw !== previous.frontMatter?.raw ||
+      JSON.stringify([...definitions.links]) !==
+        JSON.stringify([...previousDefinitions.links]) ||
+      [...definitions.footnotes].join("\n") !==
+        [...previousDefinitions.footnotes].join("\n") ||
+      blocks.some((block) => !block.position)
+    ) {
+      return relexAll();
+    }
+
+    // Restart one block early, as a block may look ahead at the lines after it
+    // (e.g. a paragraph followed by a setext underline or a list followed by an item).
+    let first = -1;
+    blocks.forEach((block, index) => {
+      if (block.position!.start.line <= startLine) first = index;
+    });
+    first = Math.max(first - 1, 0);
+
+    // With those lines unchanged, the lines before a block only matter through the lookahead above,
+    // so lexing can stop at a line after the edit where a previous block started.
+    const starts = new Map<number, number>();
+    blocks.forEach((block, index) => {
+      if (index > first && block.position!.start.line > endLine) {
+        starts.set(block.position!.start.line, index);
+      }
+    });
+
+    this.definitions = definitions.links;
+    this.footnoteLabels = definitions.footnotes;
+    const { lines, lineShift, shift } = this.splitSource(body);
+    const diagnosticsFrom = this.diagnostics.length;
+    const startIndex =
+      first === 0 ? 0 : blocks[first].position!.start.line - 1 - lineShift;
+    let resume = blocks.length;
+    const lexed = this.tokenizeLines(lines, startIndex, (index) => {
+      const line = index + 1 + lineShift;
+      const block = starts.get(line - lineDelta);
+      if (line <= endLine + lineDelta || block === undefined) return false;
+      resume = block;
+      return true;
+    });
+    shift(lexed.tokens, diagnosticsFrom);
+    this.flushDiagnostics();
+
+    const reused = blocks.slice(resume);
+    if (lineDelta) {
+      this.relocate(reused, (position) => ({
+        line: position.line + lineDelta,
+        column: position.column,
+      }));
+    }
+
+    const from = base + first;
+    return {
+      markdown: edited,
+      tokens: [...tokens.slice(0, from), ...lexed.tokens, ...reused],
+      changed: lexed.tokens.map((_, index) => from + index),
+      removed: blocks.slice(first, resume).map((_, index) => from + index),
+    };
+  }
+
+  /**
+   * Parses the given Markdown text and converts it into HTML, returning the parsed
+   * front matter alongside it.
+   *
+   * @param {string} markdown - The Markdown text to parse.
+   * @returns {ParseWithMetaResult} The resulting HTML and the front matter, or an empty object if there is none.
+   */
+  public parseWithMeta(markdown: string): ParseWithMetaResult {
+    try {
+      const tokens = this.lex(markdown);
+      const frontMatter = tokens.find((token) => token.type === "front_matter");
+      return { html: this.render(tokens), meta: frontMatter?.data || {} };
+    } catch (error) {
+      this.fail(error);
+      return { html: this.escapeHtml(markdown), meta: {} };
+    }
+  }
+
+  /**
+   * Renders a token tree, such as one returned by {@link Markyfy.lex}, into HTML.
+   *
+   * @param {Token[]} tokens - The tokens to render.
+   * @returns {string} The resulting HTML.
+   */
+  public render(tokens: Token[]): string {
+    this.diagnostics = [];
+    // A table of contents links to the headers, so they get ids even with `headerIds` off.
+    this.headerIds =
+      this.options.headerIds || this.hasTocPlaceholder(tokens)
+        ? this.collectHeaderIds(tokens)
+        : new Map();
+    this.footnotes = this.collectFootnotes(tokens);
+    let html: string;
+    try {
+      html = this.tokensToHtml(tokens) + this.renderFootnotes();
+    } finally {
+      this.headerIds = new Map();
+      this.footnotes = undefined;
+    }
+    this.flushDiagnostics();
+    if (!this.options.injectStyles) return html;
+    return `<style>\n${getThemeCss(this.options.theme)}\n</style>\n${html}`;
+  }
+
+  /**
+   * Builds the table of contents of a document: its headers, nested by depth, with the same
+   * unique `id`s they are rendered with. The `toc` option's depth limits apply.
+   *
+   * @param {string | Token[]} markdown - The Markdown text, or a token tree returned by {@link Markyfy.lex}.
+   * @returns {TocEntry[]} The top-level entries of the table of contents.
+   */
+  public getToc(markdown: string | Token[]): TocEntry[] {
+    const tokens = typeof markdown === "string" ? this.lex(markdown) : markdown;
+    return this.tableOfContents(this.collectHeaderIds(tokens));
+  }
+
+  /**
+   * Renders the table of contents of a document in the markup of the `[[toc]]` placeholder:
+   * nested lists of links to the headers inside `<nav class="toc">`.
+   *
+   * @param {string | Token[]} markdown - The Markdown text, or a token tree returned by {@link Markyfy.lex}.
+   * @returns {string} The HTML of the table of contents.
+   */
+  public renderToc(markdown: string | Token[]): string {
+    return this.renderTocNav(this.getToc(markdown));
+  }
+
   private options: Required<ParserOptions>;
   private syntaxHighlighter: SyntaxHighlighter;
+  private sanitizer: Sanitizer;
+  private blockTokenizers: BlockTokenizer[];
+  private inlineTokenizers: InlineTokenizer[];
+  private extensions: Extension[] = [];
+  private definitions = new Map<string, { url: string; title?: string }>();
+  private extensionRenderers: Renderer = {};
+  private highlighted?: Map<Token, PromiseSettledResult<string>>;
+  private headerIds = new Map<Token, string>();
+  private footnoteLabels = new Set<string>();
+  private diagnostics: Diagnostic[] = [];
+  private brackets?: {
+    text: string;
+    closers: Map<number, number>;
+    unclosedParens: Map<number, number>;
+  };
+  private locateInline?: (from: number, to: number) => TokenPosition;
+  private unclosedMath?: { text: string; inline: number; display: number };
+  private unclosedMathBlocks = new WeakMap<string[], number>();
+  private footnotes?: {
+    definitions: Token[];
+    references: Map<Token, { number: number; occurrence: number }>;
+    counts: number[];
+  };
+  private tokenizerContext: BlockTokenizerContext = {
+    lexBlocks: (markdown, startLine = 1) => {
+      const diagnosticsFrom = this.diagnostics.length;
+      const tokens = this.tokenize(markdown);
+      this.relocate(
+        tokens,
+        (position) => ({
+          line: position.line + startLine - 1,
+          column: position.column,
+        }),
+        diagnosticsFrom
+      );
+      return tokens;
+    },
+    lexInline: (text, start) => this.parseInline(text, start),
+  };
+
+  /**
+   * Creates the built-in block-level tokenizers, in priority order.
+   *
+   * @private
+   * @returns {BlockTokenizer[]} The built-in block-level tokenizers.
+   */
+  private createBlockTokenizers(): BlockTokenizer[] {
+    return [
+      {
+        priority: 100,
+        tokenize: (lines, i) => {
+          if (!(this.options.commonmark ? /^ {0,3}#/ : /^#/).test(lines[i])) {
+            return undefined;
+          }
+          const token = this.parseHeader(lines[i], i);
+          return token && { token, newIndex: i };
+        },
+      },
+      {
+        priority: 200,
+        tokenize: (lines, i) =>
+          (this.options.commonmark ? /^ {0,3}>/ : /^>/).test(lines[i])
+            ? this.parseBlockquote(lines, i)
+            : undefined,
+      },
+      {
+        priority: 300,
+        tokenize: (lines, i) => {
+          if (this.matchFence(lines[i])) return this.parseCodeBlock(lines, i);
+          if (this.options.commonmark && INDENTED_CODE.test(lines[i])) {
+            return this.parseIndentedCodeBlock(lines, i);
+          }
+          return undefined;
+        },
+      },
+      {
+        priority: 350,
+        tokenize: (lines, i) =>
+          this.options.math ? this.parseMathBlock(lines, i) : undefined,
+      },
+      {
+        priority: 400,
+        tokenize: (lines, i) =>
+          this.options.gfm && this.isTableStart(lines, i)
+            ? this.parseTable(lines, i)
+            : undefined,
+      },
+      {
+        priority: 450,
+        tokenize: (lines, i) =>
+          THEMATIC_BREAK.test(lines[i])
+            ? {
+                token: { type: "thematic_break", raw: lines[i] },
+                newIndex: i,
+              }
+            : undefined,
+      },
+      {
+        priority: 500,
+        tokenize: (lines, i) =>
+          lines[i].trim().match(/^[-*+]\s+.+/) ||
+          lines[i].trim().match(/^\d+\.\s+.+/)
+            ? this.parseList(lines, i)
+            : undefined,
+      },
+      {
+        priority: 600,
+        tokenize: (lines, i) => this.parseHtmlBlock(lines, i),
+      },
+      {
+        priority: 650,
+        tokenize: (lines, i) => this.parseFootnoteDefinition(lines, i),
+      },
+      {
+        priority: 700,
+        tokenize: (lines, i) =>
+          this.matchDefinition(lines[i])
+            ? {
+                token: { type: "definition", raw: lines[i], text: lines[i] },
+                newIndex: i,
+              }
+            : undefined,
+      },
+      {
+        priority: 800,
+        tokenize: (lines, i) =>
+          this.options.toc.placeholder &&
+          /^ {0,3}\[\[toc\]\][ \t]*$/i.test(lines[i])
+            ? { token: { type: "toc", raw: lines[i] }, newIndex: i }
+            : undefined,
+      },
+    ];
+  }
+
+  /**
+   * Creates the built-in inline tokenizers, in priority order.
+   *
+   * @private
+   * @returns {InlineTokenizer[]} The built-in inline tokenizers.
+   */
+  private createInlineTokenizers(): InlineTokenizer[] {
+    return [
+      // Code span
+      {
+        priority: 400,
+        tokenize: (text, i) => {
+          if (text[i] !== "`") return;
+          let open = i;
+          while (text[open] === "`") open++;
+          const marker = text.slice(i, open);
+
+          let close = text.indexOf(marker, open);
+          while (close !== -1 && text[close + marker.length] === "`") {
+            let skip = close;
+            while (text[skip] === "`") skip++;
+            close = text.indexOf(marker, skip);
+          }
+
+          // An unmatched backtick run is literal text as a whole.
+          if (close === -1) {
+            return {
+              token: { type: "text", raw: marker, text: marker },
+              end: open,
+            };
+          }
+
+          let code = text.slice(open, close).replace(/\r?\n/g, " ");
+          if (/^ [\s\S]* $/.test(code) && code.trim() !== "") {
+            code = code.slice(1, -1);
+          }
+          return {
+            token: {
+              type: "code",
+              raw: text.slice(i, close + marker.length),
+              text: code,
+            },
+            end: close + marker.length,
+          };
+        },
+      },
+      // Math
+      {
+        priority: 410,
+        tokenize: (text, i) => {
+          if (!this.options.math || text[i] !== "$") return;
+
+          // Once a search for a closing `$` or `$$` reaches the end of the text, a search from
+          // any later opener would too, so the offset it started from is recorded.
+          if (this.unclosedMath?.text !== text) {
+            this.unclosedMath = { text, inline: Infinity, display: Infinity };
+          }
+          const unclosed = this.unclosedMath;
+
+          // `$$...$$` inside a paragraph is display math; its TeX may start and end with spaces.
+          if (text[i + 1] === "$") {
+            let j = i + 2;
+            for (; i < unclosed.display && j < text.length - 1; j++) {
+              if (text[j] === "\\") {
+                j++;
+              } else if (text[j] === "$" && text[j + 1] === "$") {
+                if (!text.slice(i + 2, j).trim()) break;
+                return {
+                  token: {
+                    type: "math_inline",
+                    raw: text.slice(i, j + 2),
+                    text: text.slice(i + 2, j).trim(),
+                    display: true,
+                  },
+                  end: j + 2,
+                };
+              }
+            }
+            if (j >= text.length - 1) unclosed.display = i;
+            // Unmatched, the `$$` is literal text as a whole.
+            return {
+              token: { type: "text", raw: "$$", text: "$$" },
+              end: i + 2,
+            };
+          }
+
+          if (!text[i + 1] || /\s/.test(text[i + 1]) || i >= unclosed.inline) {
+            return;
+          }
+
+          // The closing `$` must not follow whitespace or precede a digit, so prices like
+          // "$5 and $10" stay text. Backslash escapes belong to the TeX and are kept.
+          for (let j = i + 1; j < text.length; j++) {
+            if (text[j] === "\\") {
+              j++;
+            } else if (
+              text[j] === "$" &&
+              !/\s/.test(text[j - 1]) &&
+              !/\d/.test(text[j + 1] || "")
+            ) {
+              return {
+                token: {
+                  type: "math_inline",
+                  raw: text.slice(i, j + 1),
+                  text: text.slice(i + 1, j),
+                },
+                end: j + 1,
+              };
+            }
+          }
+          unclosed.inline = i;
+        },
+      },
+      // Footnote reference
+      {
+        priority: 440,
+        tokenize: (text, i) => {
+          const match = text.slice(i).match(/^\[\^([^\]\s]+)\]/);
+          if (
+            !match ||
+            !this.footnoteLabels.has(this.normalizeLabel(match[1]))
+          ) {
+            return;
+          }
+          return {
+            token: {
+              type: "footnote_ref",
+              raw: match[0],
+              label: this.normalizeLabel(match[1]),
+            },
+            end: i + match[0].length,
+          };
+        },
+      },
+      // Image
+      {
+        priority: 450,
+        tokenize: (text, i, context) =>
+          text.startsWith("![", i)
+            ? this.parseLink(text, i, true, context)
+            : undefined,
+      },
+      // Link
+      {
+        priority: 500,
+        tokenize: (text, i, context) =>
+          text[i] === "[" ? this.parseLink(text, i, false, context) : undefined,
+      },
+      // Autolink (GFM)
+      {
+        priority: 600,
+        tokenize: (text, i) => {
+          if (!this.options.gfm) return;
+          if (i > 0 && !/[\s(*_~]/.test(text[i - 1])) return;
+          const autolink = text
+            .slice(i)
+            .match(/^(?:https?:\/\/|www\.)[^\s<]*[^\s<?!.,:;*_~'")\]]/);
+          if (!autolink) return;
+          const raw = autolink[0];
+          return {
+            token: {
+              type: "link",
+              raw,
+              text: raw,
+              url: raw.startsWith("www.") ? `http://${raw}` : raw,
+            },
+            end: i + raw.length,
+          };
+        },
+      },
+      // Inline HTML
+      {
+        priority: 700,
+        tokenize: (text, i) => {
+          if (text[i] !== "<") return;
+          const html = text
+            .slice(i)
+            .match(
+              /^(?:<[a-zA-Z][a-zA-Z0-9-]*(?:\s+[a-zA-Z_:][a-zA-Z0-9_.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<\/[a-zA-Z][a-zA-Z0-9-]*\s*>|<!--[\s\S]*?-->)/
+            );
+          if (!html) return;
+          return {
+            token: { type: "html_inline", raw: html[0], text: html[0] },
+            end: i + html[0].length,
+          };
+        },
+      },
+    ];
+  }
 
   /**
    * Tokenizes the Markdown text into an array of tokens.
@@ -55,62 +842,130 @@ export class Markyfy {
    * @param {string} markdown - The Markdown text to tokenize.
    * @returns {Token[]} An array of tokens representing the Markdown structure.
    */
-
   private tokenize(markdown: string): Token[] {
+    const diagnosticsFrom = this.diagnostics.length;
+    const { lines, shift } = this.splitSource(markdown);
+    const { tokens } = this.tokenizeLines(lines, 0);
+    shift(tokens, diagnosticsFrom);
+    return tokens;
+  }
+
+  /**
+   * Splits the Markdown text into the lines that are tokenized, without the whitespace around the document.
+   *
+   * @private
+   * @param {string} markdown - The Markdown text.
+   * @returns {{ lines: string[]; lineShift: number; shift: (tokens: Token[], diagnosticsFrom: number) => void }} The lines, the number of lines trimmed from the start, and a function moving the positions of tokens and of the diagnostics reported from an index, relative to the lines, onto the document.
+   */
+  private splitSource(markdown: string): {
+    lines: string[];
+    lineShift: number;
+    shift: (tokens: Token[], diagnosticsFrom: number) => void;
+  } {
+    // CommonMark mode keeps the indentation of the first line, which may
+    // start an indented code block.
+    const source = this.options.commonmark
+      ? markdown.replace(/^(?:[ \t]*\n)+/, "").trimEnd()
+      : markdown.trim();
+
+    // Positions of tokens are relative to the trimmed text; shift them back
+    // onto the whitespace that was trimmed from the start of the document.
+    const skipped = markdown.slice(0, markdown.indexOf(source)).split("\n");
+    const lineShift = skipped.length - 1;
+    const columnShift = skipped[skipped.length - 1].length;
+    const shift = (tokens: Token[], diagnosticsFrom: number) => {
+      if (!lineShift && !columnShift) return;
+      this.relocate(
+        tokens,
+        (position) => ({
+          line: position.line + lineShift,
+          column: position.column + (position.line === 1 ? columnShift : 0),
+        }),
+        diagnosticsFrom
+      );
+    };
+
+    return { lines: source.split("\n"), lineShift, shift };
+  }
+
+  /**
+   * Tokenizes lines into block-level tokens, starting at a line and stopping at the end or at
+   * the first line between blocks for which `stop` returns true.
+   *
+   * @private
+   * @param {string[]} lines - The lines to tokenize.
+   * @param {number} start - The index of the line to start at.
+   * @param {(index: number) => boolean} [stop] - Returns true to stop before the line at `index`.
+   * @returns {{ tokens: Token[]; index: number }} The tokens, and the index of the line tokenizing stopped at.
+   */
+  private tokenizeLines(
+    lines: string[],
+    start: number,
+    stop?: (index: number) => boolean
+  ): { tokens: Token[]; index: number } {
     const tokens: Token[] = [];
-    const lines = markdown.trim().split("\n");
+    let i = start;
 
-    for (let i = 0; i < lines.length; i++) {
-      try {
-        const line = lines[i];
+    // Outside CommonMark mode, consecutive lines that no tokenizer claims form one paragraph,
+    // so any block start interrupts it.
+    let paragraphStart = -1;
+    const endParagraph = (endIndex: number) => {
+      if (paragraphStart < 0) return;
+      tokens.push(this.createParagraph(lines, paragraphStart, endIndex));
+      paragraphStart = -1;
+    };
 
-        if (line.startsWith("#")) {
-          tokens.push(this.parseHeader(line));
-          continue;
-        }
+    for (; i < lines.length; i++) {
+      // A pending paragraph may continue on this line, so it is not a block boundary.
+      if (stop && paragraphStart < 0 && stop(i)) break;
 
-        if (line.startsWith(">")) {
-          const blockquote = this.parseBlockquote(lines, i);
-          tokens.push(blockquote.token);
-          i = blockquote.newIndex;
-          continue;
-        }
+      try {
+        const line = lines[i];
 
-        if (line.startsWith("```")) {
-          const codeBlock = this.parseCodeBlock(lines, i);
-          tokens.push(codeBlock.token);
-          i = codeBlock.newIndex;
-          continue;
+        let block: { token: Token; newIndex: number } | undefined;
+        for (const tokenizer of this.blockTokenizers) {
+          block = tokenizer.tokenize(lines, i, this.tokenizerContext);
+          if (block) break;
         }
 
-        if (
-          line.trim().match(/^[-*+]\s+.+/) ||
-          line.trim().match(/^\d+\.\s+.+/)
-        ) {
-          const list = this.parseList(lines, i);
-          tokens.push(list.token);
-          i = list.newIndex;
+        if (block) {
+          endParagraph(i - 1);
+          if (!block.token.position) {
+            block.token.position = this.span(lines, i, block.newIndex);
+          }
+          tokens.push(block.token);
+          i = block.newIndex;
           continue;
         }
 
-        if (line.trim()) {
-          tokens.push({
-            type: "paragraph",
-            raw: line,
-            children: this.parseInline(line),
-          });
+        if (!line.trim()) {
+          endParagraph(i - 1);
+        } else if (this.options.commonmark) {
+          const paragraph = this.parseParagraph(lines, i);
+          tokens.push(paragraph.token);
+          i = paragraph.newIndex;
+        } else if (paragraphStart < 0) {
+          paragraphStart = i;
         }
       } catch (error) {
-        console.error(`Error parsing line ${i + 1}:`, error);
+        endParagraph(i - 1);
+        const position = this.span(lines, i, i);
+        if (error instanceof MarkyfyError) {
+          this.diagnostics.push(error.diagnostic);
+        } else {
+          this.report("parse-error", "error", String(error), position);
+        }
         tokens.push({
           type: "paragraph",
           raw: lines[i],
-          text: this.escapeHtml(lines[i]),
+          position,
+          children: [{ type: "text", raw: lines[i], text: lines[i], position }],
         });
       }
     }
+    endParagraph(i - 1);
 
-    return tokens;
+    return { tokens, index: i };
   }
 
   /**
@@ -118,490 +973,2383 @@ export class Markyfy {
    *
    * @private
    * @param {string} text - The text containing inline Markdown elements.
+   * @param {Position | Position[]} [start={ line: 1, column: 1 }] - The source position of the first character of `text`, or of each of its lines.
    * @returns {Token[]} An array of tokens representing the inline elements.
    */
-  private parseInline(text: string): Token[] {
+  private parseInline(
+    text: string,
+    start: Position | Position[] = { line: 1, column: 1 }
+  ): Token[] {
     const tokens: Token[] = [];
+    const delimiters: Delimiter[] = [];
+    const locate = this.locator(text, start);
+    const outerLocate = this.locateInline;
+    const outerBrackets = this.brackets;
+    const outerMath = this.unclosedMath;
+    this.locateInline = locate;
+    this.brackets = this.unclosedMath = undefined;
+    const context: InlineTokenizerContext = {
+      lexInline: (inner, offset = 0) =>
+        this.parseInline(inner, locate(offset, offset).start),
+    };
     let current = "";
+    let currentStart = 0;
     let i = 0;
 
+    const flush = () => {
+      if (current) {
+        tokens.push({
+          type: "text",
+          raw: text.slice(currentStart, i),
+          text: current,
+          position: locate(currentStart, i),
+        });
+      }
+      current = "";
+    };
+
     while (i < text.length) {
-      // Bold
-      if (text.startsWith("**", i) || text.startsWith("__", i)) {
-        const marker = text.substr(i, 2);
-        const end = text.indexOf(marker, i + 2);
-        if (end !== -1) {
-          if (current)
-            tokens.push({ type: "text", raw: current, text: current });
-          tokens.push({
-            type: "bold",
-            raw: text.slice(i, end + 2),
-            text: text.slice(i + 2, end),
-          });
-          i = end + 2;
-          current = "";
-          continue;
+      // Line endings: a hard break after two spaces or a backslash (or any line ending
+      // with the `breaks` option), otherwise a soft break kept in the text
+      if (text[i] === "\n" || (text[i] === "\\" && text[i + 1] === "\n")) {
+        const backslash = text[i] === "\\";
+        // The trailing spaces of `current` are the spaces before the line ending in `text`.
+        let spaces = 0;
+        while (i - spaces > currentStart && text[i - spaces - 1] === " ") {
+          spaces++;
         }
-      }
+        if (spaces) current = current.slice(0, current.length - spaces);
+        const end = backslash ? i + 2 : i + 1;
 
-      // Italic
-      if (text[i] === "*" || text[i] === "_") {
-        const end = text.indexOf(text[i], i + 1);
-        if (end !== -1) {
-          if (current)
-            tokens.push({ type: "text", raw: current, text: current });
+        if (backslash || spaces >= 2 || this.options.breaks) {
+          const from = i - spaces;
+          i -= spaces;
+          flush();
           tokens.push({
-            type: "italic",
-            raw: text.slice(i, end + 1),
-            text: text.slice(i + 1, end),
+            type: "line_break",
+            raw: text.slice(from, end),
+            position: locate(from, end),
           });
-          i = end + 1;
-          current = "";
-          continue;
+          i = currentStart = end;
+        } else {
+          // The text is flushed line by line, so trimming spaces never copies a whole paragraph.
+          current += "\n";
+          i = end;
+          flush();
+          currentStart = i;
         }
+        continue;
       }
 
-      // Inline code
-      if (text[i] === "`") {
-        const end = text.indexOf("`", i + 1);
-        if (end !== -1) {
-          if (current)
-            tokens.push({ type: "text", raw: current, text: current });
-          tokens.push({
-            type: "code",
-            raw: text.slice(i, end + 1),
-            text: text.slice(i + 1, end),
-          });
-          i = end + 1;
-          current = "";
-          continue;
+      // Backslash escape
+      if (text[i] === "\\" && ASCII_PUNCTUATION.test(text[i + 1] || "")) {
+        current += text[i + 1];
+        i += 2;
+        continue;
+      }
+
+      let inline: { token: Token; end: number } | undefined;
+      for (const tokenizer of this.inlineTokenizers) {
+        inline = tokenizer.tokenize(text, i, context);
+        if (inline) break;
+      }
+
+      if (inline) {
+        flush();
+        if (!inline.token.position) {
+          inline.token.position = locate(i, inline.end);
         }
+        tokens.push(inline.token);
+        i = currentStart = inline.end;
+        continue;
       }
 
-      // Link
-      if (text[i] === "[") {
-        const titleEnd = text.indexOf("]", i);
-        if (titleEnd !== -1 && text[titleEnd + 1] === "(") {
-          const urlEnd = text.indexOf(")", titleEnd + 2);
-          if (urlEnd !== -1) {
-            if (current)
-              tokens.push({ type: "text", raw: current, text: current });
-            tokens.push({
-              type: "link",
-              raw: text.slice(i, urlEnd + 1),
-              text: text.slice(i + 1, titleEnd),
-              url: text.slice(titleEnd + 2, urlEnd),
-            });
-            i = urlEnd + 1;
-            current = "";
-            continue;
-          }
+      // Emphasis and strikethrough delimiter runs
+      const char = text[i];
+      if (char === "*" || char === "_" || (this.options.gfm && char === "~")) {
+        let end = i;
+        while (text[end] === char) end++;
+        flush();
+
+        const token: Token = {
+          type: "text",
+          raw: text.slice(i, end),
+          text: text.slice(i, end),
+          position: locate(i, end),
+        };
+        tokens.push(token);
+
+        const { canOpen, canClose } = this.classifyDelimiterRun(text, i, end);
+        if (canOpen || canClose) {
+          delimiters.push({
+            token,
+            char,
+            from: i,
+            to: end,
+            length: end - i,
+            canOpen,
+            canClose,
+          });
         }
+        i = currentStart = end;
+        continue;
       }
 
       current += text[i];
       i++;
     }
+    this.locateInline = outerLocate;
+    this.brackets = outerBrackets;
+    this.unclosedMath = outerMath;
 
-    if (current) {
-      tokens.push({ type: "text", raw: current, text: current });
-    }
+    flush();
+    this.processEmphasis(text, tokens, delimiters, locate);
 
-    return tokens;
+    return this.mergeText(tokens);
   }
 
   /**
-   * Parses a Markdown header line into a token.
+   * Determines whether a delimiter run can open and/or close emphasis, following
+   * CommonMark's left- and right-flanking rules. Underscores additionally cannot
+   * open or close emphasis inside a word, so `snake_case_name` stays plain text.
    *
    * @private
-   * @param {string} line - The header line to parse.
-   * @returns {Token} A token representing the header.
+   * @param {string} text - The text containing the delimiter run.
+   * @param {number} from - The offset of the first character of the run.
+   * @param {number} to - The offset just past the last character of the run.
+   * @returns {{ canOpen: boolean; canClose: boolean }} Whether the run can open and close emphasis.
    */
-  private parseHeader(line: string): Token {
-    const match = line.match(/^(#{1,6})(\s+(.+))?$/);
-    if (!match) {
-      return {
-        type: "paragraph",
-        raw: line,
-        children: this.parseInline(line),
-      };
-    }
+  private classifyDelimiterRun(
+    text: string,
+    from: number,
+    to: number
+  ): { canOpen: boolean; canClose: boolean } {
+    const before = from > 0 ? text[from - 1] : " ";
+    const after = to < text.length ? text[to] : " ";
+    const beforeIsSpace = /\s/.test(before);
+    const afterIsSpace = /\s/.test(after);
+    const beforeIsPunctuation = /[\p{P}\p{S}]/u.test(before);
+    const afterIsPunctuation = /[\p{P}\p{S}]/u.test(after);
 
-    if (!match[2]) {
+    const leftFlanking =
+      !afterIsSpace &&
+      (!afterIsPunctuation || beforeIsSpace || beforeIsPunctuation);
+    const rightFlanking =
+      !beforeIsSpace &&
+      (!beforeIsPunctuation || afterIsSpace || afterIsPunctuation);
+
+    if (text[from] === "_") {
       return {
-        type: "paragraph",
-        raw: line,
-        children: this.parseInline(line),
+        canOpen: leftFlanking && (!rightFlanking || beforeIsPunctuation),
+        canClose: rightFlanking && (!leftFlanking || afterIsPunctuation),
       };
     }
 
-    return {
-      type: "header",
-      raw: line,
-      text: match[3],
-      depth: match[1].length,
-      children: this.parseInline(match[3]),
-    };
+    return { canOpen: leftFlanking, canClose: rightFlanking };
   }
 
   /**
-   * Parses a Markdown blockquote into a token.
+   * Matches emphasis delimiter runs into nested `bold`, `italic` and `strikethrough` tokens,
+   * following CommonMark's "process emphasis" procedure. Unmatched delimiters stay plain text.
    *
    * @private
-   * @param {string[]} lines - The array of lines containing the blockquote.
-   * @param {number} startIndex - The starting index of the blockquote in the lines array.
-   * @returns {{ token: Token; newIndex: number }} An object containing the blockquote token and the new index.
+   * @param {string} text - The inline text the delimiters were found in.
+   * @param {Token[]} tokens - The inline tokens, modified in place.
+   * @param {Delimiter[]} delimiters - The delimiter runs, in source order.
+   * @param {(from: number, to: number) => TokenPosition} locate - Maps offsets within `text` to source positions.
    */
-  private parseBlockquote(
-    lines: string[],
-    startIndex: number
-  ): { token: Token; newIndex: number } {
-    const content: string[] = [];
-    let i = startIndex;
+  private processEmphasis(
+    text: string,
+    tokens: Token[],
+    delimiters: Delimiter[],
+    locate: (from: number, to: number) => TokenPosition
+  ): void {
+    if (!delimiters.length) return;
 
-    while (
-      i < lines.length &&
-      (lines[i].startsWith(">") || lines[i].trim() === "")
-    ) {
-      if (lines[i].trim() !== "") {
-        content.push(lines[i].slice(1).trim());
+    // The tokens and the delimiters are kept as linked lists, so matching a pair never shifts
+    // the tokens after it. Node 0 is the head of the tokens and `tail` their end.
+    const nodes: (Token | undefined)[] = [undefined, ...tokens, undefined];
+    const tail = nodes.length - 1;
+    const nextNode = nodes.map((_, index) => index + 1);
+    const previousNode = nodes.map((_, index) => index - 1);
+    const nodeOf = new Map(tokens.map((token, index) => [token, index + 1]));
+    const unlinkNode = (node: number) => {
+      nextNode[previousNode[node]] = nextNode[node];
+      previousNode[nextNode[node]] = previousNode[node];
+    };
+
+    const nextDelimiter = delimiters.map((_, index) => index + 1);
+    const previousDelimiter = delimiters.map((_, index) => index - 1);
+    const unlinkDelimiter = (index: number) => {
+      if (previousDelimiter[index] >= 0) {
+        nextDelimiter[previousDelimiter[index]] = nextDelimiter[index];
       }
-      i++;
+      if (nextDelimiter[index] < delimiters.length) {
+        previousDelimiter[nextDelimiter[index]] = previousDelimiter[index];
+      }
+    };
+    // For each kind of closer, the delimiter at or below which no opener can match it,
+    // as in CommonMark's "openers bottom".
+    const openersBottom = new Map<string, number>();
+
+    for (let c = 0; c < delimiters.length; c = nextDelimiter[c]) {
+      const closer = delimiters[c];
+      if (!closer.canClose) continue;
+
+      const kind =
+        closer.char === "~"
+          ? `~${closer.length}`
+          : `${closer.char}${closer.canOpen}${(closer.to - closer.from) % 3}`;
+      const bottom = openersBottom.get(kind) ?? -1;
+
+      while (closer.length > 0) {
+        let o = previousDelimiter[c];
+        for (; o > bottom; o = previousDelimiter[o]) {
+          const opener = delimiters[o];
+          if (
+            opener.char !== closer.char ||
+            !opener.canOpen ||
+            opener.length === 0
+          ) {
+            continue;
+          }
+          if (opener.char === "~") {
+            if (opener.length === closer.length && opener.length <= 2) break;
+            continue;
+          }
+          // The "rule of 3": a run that can both open and close only matches a
+          // run whose combined length is not a multiple of 3, unless both are.
+          const original = opener.to - opener.from + closer.to - closer.from;
+          if (
+            (opener.canClose || closer.canOpen) &&
+            original % 3 === 0 &&
+            ((opener.to - opener.from) % 3 !== 0 ||
+              (closer.to - closer.from) % 3 !== 0)
+          ) {
+            continue;
+          }
+          break;
+        }
+        if (o <= bottom) {
+          openersBottom.set(kind, previousDelimiter[c]);
+          if (!closer.canOpen) unlinkDelimiter(c);
+          break;
+        }
+
+        const opener = delimiters[o];
+        const use =
+          closer.char === "~"
+            ? closer.length
+            : opener.length >= 2 && closer.length >= 2
+            ? 2
+            : 1;
+        const from = opener.from + opener.length - use;
+        const to = closer.to - closer.length + use;
+
+        const openNode = nodeOf.get(opener.token) as number;
+        const closeNode = nodeOf.get(closer.token) as number;
+        const children: Token[] = [];
+        for (let node = nextNode[openNode]; node !== closeNode; ) {
+          children.push(nodes[node] as Token);
+          node = nextNode[node];
+        }
+        const emphasis = nodes.length;
+        nodes.push({
+          type:
+            closer.char === "~"
+              ? "strikethrough"
+              : use === 2
+              ? "bold"
+              : "italic",
+          raw: text.slice(from, to),
+          text: text.slice(from + use, to - use),
+          position: locate(from, to),
+          children: this.mergeText(children),
+        });
+        nextNode.push(closeNode);
+        previousNode.push(openNode);
+        nextNode[openNode] = previousNode[closeNode] = emphasis;
+
+        opener.length -= use;
+        closer.length -= use;
+        for (const delimiter of [opener, closer]) {
+          const runStart =
+            delimiter === opener ? opener.from : closer.to - closer.length;
+          const run = text.slice(runStart, runStart + delimiter.length);
+          if (run) {
+            delimiter.token.raw = delimiter.token.text = run;
+            delimiter.token.position = locate(runStart, runStart + run.length);
+          } else {
+            unlinkNode(nodeOf.get(delimiter.token) as number);
+          }
+        }
+
+        // The delimiters between the pair can no longer match anything.
+        nextDelimiter[o] = c;
+        previousDelimiter[c] = o;
+        if (opener.length === 0) unlinkDelimiter(o);
+      }
+      if (closer.length === 0) unlinkDelimiter(c);
     }
 
-    return {
-      token: {
-        type: "blockquote",
-        raw: lines.slice(startIndex, i).join("\n"),
-        children: this.tokenize(content.join("\n")),
-      },
-      newIndex: i - 1,
-    };
+    tokens.length = 0;
+    for (let node = nextNode[0]; node !== tail; node = nextNode[node]) {
+      tokens.push(nodes[node] as Token);
+    }
   }
 
   /**
-   * Parses a Markdown code block into a token.
+   * Merges adjacent text tokens into one.
    *
    * @private
-   * @param {string[]} lines - The array of lines containing the code block.
-   * @param {number} startIndex - The starting index of the code block in the lines array.
-   * @returns {{ token: Token; newIndex: number }} An object containing the code block token and the new index.
+   * @param {Token[]} tokens - The inline tokens to merge.
+   * @returns {Token[]} The tokens with adjacent text tokens merged.
    */
-  private parseCodeBlock(
-    lines: string[],
-    startIndex: number
-  ): { token: Token; newIndex: number } {
-    const content: string[] = [];
-    let i = startIndex + 1;
-    const lang = lines[startIndex].slice(3).trim();
+  private mergeText(tokens: Token[]): Token[] {
+    const merged: Token[] = [];
+    for (const token of tokens) {
+      const previous = merged[merged.length - 1];
+      if (previous?.type === "text" && token.type === "text") {
+        merged[merged.length - 1] = {
+          type: "text",
+          raw: previous.raw + token.raw,
+          text: (previous.text || "") + (token.text || ""),
+          position: previous.position &&
+            token.position && {
+              start: previous.position.start,
+              end: token.position.end,
+            },
+        };
+      } else {
+        merged.push(token);
+      }
+    }
+    return merged;
+  }
 
-    while (i < lines.length && !lines[i].startsWith("```")) {
-      content.push(lines[i]);
-      i++;
+  /**
+   * Parses an inline link or image (`[text](url "title")`) or a reference link or image
+   * (`[text][ref]`, `[ref][]`, `[ref]`) into a token.
+   *
+   * @private
+   * @param {string} text - The text containing the link.
+   * @param {number} start - The offset of the link's opening `[` (or `!` for images).
+   * @param {boolean} image - Whether to parse an image instead of a link.
+   * @param {InlineTokenizerContext} context - Helpers for lexing the link text.
+   * @returns {{ token: Token; end: number } | undefined} The link token and the offset just past it, or undefined if no link starts here.
+   */
+  private parseLink(
+    text: string,
+    start: number,
+    image: boolean,
+    context: InlineTokenizerContext
+  ): { token: Token; end: number } | undefined {
+    const open = image ? start + 1 : start;
+    const close = this.findClosingBracket(text, open);
+    if (close === -1) return undefined;
+    const label = text.slice(open + 1, close);
+
+    let target: { url: string; title?: string } | undefined;
+    let end = close + 1;
+
+    if (text[end] === "(") {
+      const inline = this.parseLinkDestination(text, end + 1);
+      if (inline) {
+        target = inline;
+        end = inline.end;
+      }
     }
 
-    if (i >= lines.length) {
-      throw new Error("Unclosed code block");
+    if (!target && text[end] === "[") {
+      const refClose = this.findClosingBracket(text, end);
+      if (refClose !== -1) {
+        const ref = text.slice(end + 1, refClose) || label;
+        target = this.definitions.get(this.normalizeLabel(ref));
+        if (target) end = refClose + 1;
+      }
+    }
+
+    if (!target) {
+      target = this.definitions.get(this.normalizeLabel(label));
+    }
+
+    if (!target) {
+      // A link whose destination is never closed stays text; report it, as it is likely a typo.
+      const lineEnd = this.matchBrackets(text).unclosedParens.get(close + 1);
+      if (!image && lineEnd !== undefined) {
+        this.report(
+          "unterminated-link",
+          "warning",
+          "Unterminated link destination; expected a closing )",
+          this.locateInline?.(start, lineEnd)
+        );
+      }
+      return undefined;
     }
 
     return {
       token: {
-        type: "code_block",
-        raw: lines.slice(startIndex, i + 1).join("\n"),
-        text: content.join("\n"),
-        lang,
+        type: image ? "image" : "link",
+        raw: text.slice(start, end),
+        text: label,
+        url: this.unescape(target.url),
+        ...(target.title !== undefined && {
+          title: this.unescape(target.title),
+        }),
+        children: context.lexInline(label, open + 1),
       },
-      newIndex: i,
+      end,
     };
   }
 
   /**
-   * Parses a Markdown list into a token.
+   * Removes backslash escapes from a string, e.g. a link destination or title.
    *
    * @private
-   * @param {string[]} lines - The array of lines containing the list.
-   * @param {number} startIndex - The starting index of the list in the lines array.
-   * @returns {{ token: Token; newIndex: number }} An object containing the list token and the new index.
+   * @param {string} text - The text to unescape.
+   * @returns {string} The unescaped text.
    */
-  private parseList(
-    lines: string[],
-    startIndex: number
-  ): { token: Token; newIndex: number } {
-    const items: Token[] = [];
-    let i = startIndex;
-    let currentIndent = 0;
-    const listStack: Token[][] = [items];
+  private unescape(text: string): string {
+    return text.replace(/\\([!-\/:-@[-`{-~])/g, "$1");
+  }
 
-    const firstLine = lines[startIndex].trim();
-    const isOrderedList = /^\d+\.\s/.test(firstLine);
+  /**
+   * Finds the `]` closing the `[` at the given offset, skipping nested brackets and backslash escapes.
+   *
+   * @private
+   * @param {string} text - The text to search.
+   * @param {number} open - The offset of the opening `[`.
+   * @returns {number} The offset of the closing `]`, or -1 if there is none.
+   */
+  private findClosingBracket(text: string, open: number): number {
+    return this.matchBrackets(text).closers.get(open) ?? -1;
+  }
 
-    while (i < lines.length) {
-      const line = lines[i];
-      const indentMatch = line.match(/^(\s*)/);
-      const indent = indentMatch ? indentMatch[1].length : 0;
+  /**
+   * Matches the brackets of a text in a single pass, skipping backslash escapes: the `]` closing
+   * each `[`, and the `(` with no `)` after them on their line. The result is reused for later
+   * lookups while `parseInline` lexes the text, so a run of unclosed `[` or `(` does not rescan
+   * the text for each, and a link text lexed in between does not replace it.
+   *
+   * @private
+   * @param {string} text - The text to scan.
+   * @returns {{ closers: Map<number, number>; unclosedParens: Map<number, number> }} The offset of the `]` closing each `[`, and the offset of the line end after each unclosed `(`.
+   */
+  private matchBrackets(text: string): {
+    closers: Map<number, number>;
+    unclosedParens: Map<number, number>;
+  } {
+    if (this.brackets?.text === text) return this.brackets;
 
-      const isOrderedItem = /^\d+\.\s+(.+)$/.test(line.trim());
-      const isUnorderedItem = /^[-*+]\s+(.+)$/.test(line.trim());
+    const closers = new Map<number, number>();
+    const unclosedParens = new Map<number, number>();
+    const opens: number[] = [];
+    let parens: number[] = [];
+    for (let i = 0; i <= text.length; i++) {
+      if (i === text.length || text[i] === "\n") {
+        for (const paren of parens) unclosedParens.set(paren, i);
+        parens = [];
+      } else if (text[i] === "\\" && text[i + 1] !== "\n") {
+        i++;
+      } else if (text[i] === "[") {
+        opens.push(i);
+      } else if (text[i] === "]" && opens.length) {
+        closers.set(opens.pop()!, i);
+      } else if (text[i] === "(") {
+        parens.push(i);
+      } else if (text[i] === ")") {
+        parens = [];
+      }
+    }
 
-      const isValidListItem = isOrderedList ? isOrderedItem : isUnorderedItem;
-      const listItemMatch = line
-        .trim()
-        .match(isOrderedList ? /^(\d+\.)\s+(.+)$/ : /^([-*+])\s+(.+)$/);
+    this.brackets = { text, closers, unclosedParens };
+    return this.brackets;
+  }
 
-      if (!listItemMatch || !isValidListItem) {
-        if (indent > currentIndent && line.trim()) {
-          const currentList = listStack[listStack.length - 1];
-          if (currentList.length > 0) {
-            const lastItem = currentList[currentList.length - 1];
-            if (lastItem.text) {
-              lastItem.text += "\n" + line.trim();
-              if (lastItem.children) {
-                lastItem.children.push({
-                  type: "text",
-                  raw: line.trim(),
-                  text: line.trim(),
-                });
-              }
-            }
-          }
-          i++;
+  /**
+   * Parses the destination and optional title of an inline link, e.g. `url "title")`.
+   * The destination is either wrapped in `<...>` on a single line or runs up to whitespace or an
+   * unbalanced `)`, so URLs with balanced parentheses are kept intact.
+   *
+   * @private
+   * @param {string} text - The text containing the link.
+   * @param {number} start - The offset just past the link's opening `(`.
+   * @returns {{ url: string; title?: string; end: number } | undefined} The destination, title, and the offset just past the closing `)`, or undefined if the syntax is invalid.
+   */
+  private parseLinkDestination(
+    text: string,
+    start: number
+  ): { url: string; title?: string; end: number } | undefined {
+    let i = start;
+    while (text[i] === " " || text[i] === "\t") i++;
+
+    let url = "";
+    if (text[i] === "<") {
+      let close = i + 1;
+      while (close < text.length && !"<>\n".includes(text[close])) {
+        close += text[close] === "\\" ? 2 : 1;
+      }
+      if (text[close] !== ">") return undefined;
+      url = text.slice(i + 1, close);
+      i = close + 1;
+    } else {
+      let depth = 0;
+      const urlStart = i;
+      while (i < text.length && !/\s/.test(text[i])) {
+        if (text[i] === "\\" && i + 1 < text.length) {
+          i += 2;
           continue;
         }
-        break;
+        if (text[i] === "(" && ++depth > MAX_LINK_PAREN_DEPTH) return undefined;
+        if (text[i] === ")" && depth-- === 0) break;
+        i++;
       }
+      url = text.slice(urlStart, i);
+    }
 
-      const [, marker, content] = listItemMatch;
+    while (/\s/.test(text[i] || "")) i++;
 
-      if (indent > currentIndent) {
-        const newList: Token[] = [];
-        const parentList = listStack[listStack.length - 1];
-        if (parentList.length > 0) {
-          const lastItem = parentList[parentList.length - 1];
-          lastItem.items = newList;
-        }
-        listStack.push(newList);
-        currentIndent = indent;
-      } else if (indent < currentIndent) {
-        while (indent < currentIndent && listStack.length > 1) {
-          listStack.pop();
-          currentIndent -= 2;
-        }
+    let title: string | undefined;
+    const closers: Record<string, string> = { '"': '"', "'": "'", "(": ")" };
+    if (closers[text[i]] && i > start) {
+      let close = i + 1;
+      while (close < text.length && text[close] !== closers[text[i]]) {
+        // A title in parentheses cannot contain an unescaped `(`.
+        if (text[i] === "(" && text[close] === "(") return undefined;
+        close += text[close] === "\\" ? 2 : 1;
       }
+      if (close >= text.length) return undefined;
+      title = text.slice(i + 1, close);
+      i = close + 1;
+      while (/\s/.test(text[i] || "")) i++;
+    }
 
-      const currentList = listStack[listStack.length - 1];
-      currentList.push({
-        type: "list_item",
-        raw: line,
-        text: content,
-        ordered: isOrderedList,
-        children: this.parseInline(content),
-      });
+    if (text[i] !== ")") return undefined;
+    return { url, title, end: i + 1 };
+  }
 
-      i++;
+  /**
+   * Detects front matter at the very start of a document: lines fenced by `---` (YAML)
+   * or `+++` (TOML), parsed with the `parseFrontMatter` option. A block the parser rejects
+   * is not front matter.
+   *
+   * @private
+   * @param {string} markdown - The Markdown text.
+   * @returns {Token | undefined} The front matter token, or undefined if the document has none.
+   */
+  private parseFrontMatter(markdown: string): Token | undefined {
+    if (!this.options.frontMatter) return undefined;
+
+    const match = markdown.match(
+      /^(---|\+\+\+)[ \t]*\n(?:([\s\S]*?)\n)?\1[ \t]*(?=\n|$)/
+    );
+    if (!match) return undefined;
+
+    const format: FrontMatterFormat = match[1] === "---" ? "yaml" : "toml";
+    const source = match[2] || "";
+    try {
+      const data = this.options.parseFrontMatter(source, format);
+      const lines = match[0].split("\n");
+      return {
+        type: "front_matter",
+        raw: match[0],
+        text: source,
+        lang: format,
+        data,
+        position: this.span(lines, 0, lines.length - 1),
+      };
+    } catch (error) {
+      const lines = match[0].split("\n");
+      this.report(
+        "invalid-front-matter",
+        "warning",
+        `Invalid ${format.toUpperCase()} front matter: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        this.span(lines, 0, lines.length - 1)
+      );
+      return undefined;
     }
+  }
 
-    return {
-      token: {
-        type: "list",
-        raw: lines.slice(startIndex, i).join("\n"),
-        ordered: isOrderedList,
-        items: items,
-      },
-      newIndex: i - 1,
-    };
+  /**
+   * Separates the front matter from the rest of the document.
+   *
+   * @private
+   * @param {string} markdown - The Markdown text.
+   * @returns {{ frontMatter?: Token; body: string }} The front matter token, if any, and the document with the front matter blanked out.
+   */
+  private splitFrontMatter(markdown: string): {
+    frontMatter?: Token;
+    body: string;
+  } {
+    const frontMatter = this.parseFrontMatter(markdown);
+    if (!frontMatter) return { body: markdown };
+
+    // Blank out the front matter so positions in the rest of the document stay the same.
+    const lineCount = frontMatter.raw.split("\n").length;
+    const body =
+      "\n".repeat(lineCount - 1) + markdown.slice(frontMatter.raw.length);
+    return { frontMatter, body };
   }
 
   /**
-   * Converts an array of tokens into an HTML string.
+   * Collects the link reference definitions (`[ref]: url "title"`) and the labels of the footnote
+   * definitions (`[^label]: note`) of a document, skipping fenced code.
+   * The first definition of a label wins.
    *
    * @private
-   * @param {Token[]} tokens - The array of tokens to convert.
-   * @returns {string} The resulting HTML string.
+   * @param {string} markdown - The Markdown document.
+   * @returns {{ links: Map<string, { url: string; title?: string }>; footnotes: Set<string> }} The link definitions and the footnote labels, keyed by normalized label.
    */
-  private tokensToHtml(tokens: Token[]): string {
-    const html = tokens
-      .map((token) => {
-        switch (token.type) {
-          case "header":
-            const id = this.options.headerIds
-              ? ` id="${this.slugify(token.text || "")}"`
-              : "";
-            return `<h${token.depth}${id}>${this.renderChildren(
-              token.children
-            )}</h${token.depth}>`;
-
-          case "code_block":
-            const highlighted = this.syntaxHighlighter.highlight(
-              token.text || "",
-              token.lang || ""
-            );
-            return `
-            <pre>
-              <code class="language-${token.lang || ""}">${highlighted}</code>
-            </pre>
-            <style>
-              pre {
-                display: flex;
-                flex-direction: column;
-                justify-content: center;
-                background: #282c34;
-                color: #abb2bf;
-                padding: 1rem;
-                border-radius: 5px;
-                overflow-x: auto;
-
-                code {
-                  font-family: "Fira Code", monospace;
-                  font-size: 14px;
-                  background: initial;
-                  color: white;
-                  line-height: 1.5;
-                }
-              }
-              .token.keyword { color: #c678dd; }
-              .token.function { color: #61afef; }
-              .token.string { color: #ce9178; }
-              .token.comment { color: #7c858d; }
-              .token.number { color: #b5cea8; }
-              .token.boolean { color: #569cd6; }
-              .token.type { color: #4ec9b0; }
-              .token.class { color: #4ec9b0; }
-              .token.punctuation { color: #abb2bf; } 
-            </style>
-          `;
-
-          case "paragraph":
-            return `<p>${this.renderChildren(token.children)}</p>`;
-
-          case "blockquote":
-            return `<blockquote>${this.tokensToHtml(
-              token.children || []
-            )}</blockquote>`;
-
-          case "list": {
-            const tag = token.ordered ? "ol" : "ul";
-            const renderListItems = (items: Token[] = []): string => {
-              return items
-                .map((item) => {
-                  const itemContent = this.renderChildren(item.children);
-                  const nestedList = item.items
-                    ? `\n${renderListItems(item.items)}\n`
-                    : "";
-                  return `<li>${itemContent}${nestedList}</li>`;
-                })
-                .join("\n");
-            };
-            return `
-              <${tag}>\n${renderListItems(token.items)}\n</${tag}>
-              <style>
-                ul {
-                  list-style-type: disc;
-                  padding-left: 20px;
-                  display: block;
-                  margin-block-start: 1em;
-                  margin-block-end: 1em;
-                  margin-inline-start: 0px;
-                  margin-inline-end: 0px;
-                  padding-inline-start: 40px;
-                  unicode-bidi: isolate;
-                }
-                
-                ol {
-                  list-style-type: decimal;
-                  padding-left: 20px;
-                  display: block;
-                  margin-block-start: 1em;
-                  margin-block-end: 1em;
-                  margin-inline-start: 0px;
-                  margin-inline-end: 0px;
-                  padding-inline-start: 40px;
-                  unicode-bidi: isolate;
-                }
-
-                ul ul {
-                  list-style-type: circle;
-                }
-                
-                ul ul ul {
-                  list-style-type: square;
-                }
-                
-                ol ol {
-                  list-style-type: lower-alpha;
-                }
-                
-                ol ol ol {
-                  list-style-type: lower-roman;
-                }
-              </>
-            `;
-          }
+  private collectDefinitions(markdown: string): {
+    links: Map<string, { url: string; title?: string }>;
+    footnotes: Set<string>;
+  } {
+    const definitions = new Map<string, { url: string; title?: string }>();
+    const footnotes = new Set<string>();
+    let fence: string | undefined;
+
+    for (const line of markdown.split("\n")) {
+      const opening = this.matchFence(line);
+      if (fence) {
+        if (
+          line.trim().startsWith(fence) &&
+          !line.trim().slice(fence.length).replace(/[`~]/g, "").trim()
+        ) {
+          fence = undefined;
+        }
+        continue;
+      }
+      if (opening) {
+        fence = opening.fence;
+        continue;
+      }
+
+      const footnote = this.matchFootnoteDefinition(line);
+      if (footnote) footnotes.add(footnote.label);
+
+      const definition = this.matchDefinition(line);
+      if (definition && !definitions.has(definition.label)) {
+        definitions.set(definition.label, {
+          url: definition.url,
+          title: definition.title,
+        });
+      }
+    }
 
-          case "bold":
-            return `<strong>${this.escapeHtml(token.text || "")}</strong>`;
+    return { links: definitions, footnotes };
+  }
 
-          case "italic":
-            return `<em>${this.escapeHtml(token.text || "")}</em>`;
+  /**
+   * Matches the first line of a footnote definition (`[^label]: note`).
+   *
+   * @private
+   * @param {string} line - The line to match.
+   * @returns {{ label: string; offset: number } | undefined} The normalized label and the offset of the note's text, or undefined if the line does not start a footnote definition.
+   */
+  private matchFootnoteDefinition(
+    line: string
+  ): { label: string; offset: number } | undefined {
+    const match = line.match(/^ {0,3}\[\^([^\]\s]+)\]:[ \t]?/);
+    if (!match) return undefined;
+    return { label: this.normalizeLabel(match[1]), offset: match[0].length };
+  }
 
-          case "code":
-            return `<code>${this.escapeHtml(token.text || "")}</code>`;
+  /**
+   * Parses a footnote definition into a token. The note continues on lines indented by four
+   * spaces, which may be separated by blank lines to form several paragraphs, and on unindented
+   * lines that continue its text without starting another block.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines containing the footnote definition.
+   * @param {number} startIndex - The starting index of the footnote definition in the lines array.
+   * @returns {{ token: Token; newIndex: number } | undefined} An object containing the footnote definition token and the new index, or undefined if no footnote definition starts here.
+   */
+  private parseFootnoteDefinition(
+    lines: string[],
+    startIndex: number
+  ): { token: Token; newIndex: number } | undefined {
+    const start = this.matchFootnoteDefinition(lines[startIndex]);
+    if (!start) return undefined;
 
-          case "link":
-            const url = this.options.sanitize
-              ? this.sanitizeUrl(token.url || "")
-              : token.url;
-            return `<a href="${url}">${this.escapeHtml(token.text || "")}</a>`;
+    const content = [lines[startIndex].slice(start.offset)];
+    const origins: Position[] = [
+      { line: startIndex + 1, column: start.offset + 1 },
+    ];
+    let i = startIndex;
 
-          default:
-            return this.escapeHtml(token.text || "");
+    while (i + 1 < lines.length) {
+      const line = lines[i + 1];
+      if (line.trim() === "") {
+        // Blank lines belong to the note only if an indented line follows them.
+        let next = i + 1;
+        while (next < lines.length && lines[next].trim() === "") next++;
+        if (next >= lines.length || !/^(?: {4}|\t)/.test(lines[next])) break;
+        for (; i + 1 < next; i++) {
+          content.push("");
+          origins.push({ line: i + 2, column: 1 });
         }
-      })
-      .join("\n");
+        continue;
+      }
 
-    return html;
+      const indent = line.match(/^(?: {4}|\t)/);
+      const continuesText =
+        content[content.length - 1].trim() !== "" &&
+        !this.interruptsParagraph(line) &&
+        !this.matchFootnoteDefinition(line) &&
+        !this.matchDefinition(line);
+      if (!indent && !continuesText) break;
+
+      const prefix = indent ? indent[0].length : 0;
+      content.push(line.slice(prefix));
+      origins.push({ line: i + 2, column: prefix + 1 });
+      i++;
+    }
+
+    const diagnosticsFrom = this.diagnostics.length;
+    const children = this.tokenize(content.join("\n"));
+    this.relocate(
+      children,
+      (position) => {
+        const origin = origins[position.line - 1];
+        return {
+          line: origin.line,
+          column: origin.column + position.column - 1,
+        };
+      },
+      diagnosticsFrom
+    );
+
+    return {
+      token: {
+        type: "footnote_definition",
+        raw: lines.slice(startIndex, i + 1).join("\n"),
+        label: start.label,
+        position: this.span(lines, startIndex, i),
+        children,
+      },
+      newIndex: i,
+    };
   }
 
   /**
-   * Renders the children tokens of a parent token into an HTML string.
+   * Matches a link reference definition line (`[ref]: url "title"`).
    *
    * @private
-   * @param {Token[]} [children] - The array of child tokens to render.
-   * @returns {string} The resulting HTML string.
+   * @param {string} line - The line to match.
+   * @returns {{ label: string; url: string; title?: string } | undefined} The normalized label, URL and title, or undefined if the line is not a definition.
    */
-  private renderChildren(children?: Token[]): string {
-    if (!children) return "";
-    return children.map((child) => this.tokensToHtml([child])).join("");
+  private matchDefinition(
+    line: string
+  ): { label: string; url: string; title?: string } | undefined {
+    const match = line.match(
+      /^ {0,3}\[([^\]]+)\]:\s*(?:<([^>]*)>|(\S+))(?:\s+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?\s*$/
+    );
+    if (!match || match[1].startsWith("^")) return undefined;
+    return {
+      label: this.normalizeLabel(match[1]),
+      url: match[2] ?? match[3],
+      title: match[4] ?? match[5] ?? match[6],
+    };
   }
 
   /**
-   * Sanitizes a URL to prevent XSS attacks.
+   * Normalizes a link label for case-insensitive, whitespace-insensitive matching.
    *
    * @private
-   * @param {string} url - The URL to sanitize.
-   * @returns {string} The sanitized URL.
+   * @param {string} label - The label to normalize.
+   * @returns {string} The normalized label.
    */
-  private sanitizeUrl(url: string): string {
-    try {
-      const parsed = new URL(url);
-      return parsed.protocol === "javascript:" ? "" : url;
-    } catch {
-      return url;
+  private normalizeLabel(label: string): string {
+    return label.trim().replace(/\s+/g, " ").toLowerCase();
+  }
+
+  /**
+   * Parses a Markdown header line into a token.
+   *
+   * @private
+   * @param {string} line - The header line to parse.
+   * @param {number} index - The index of the header line in the document.
+   * @returns {Token | undefined} A token representing the header, or undefined if the line is not a header.
+   */
+  private parseHeader(line: string, index: number): Token | undefined {
+    const position: TokenPosition = {
+      start: {
+        line: index + 1,
+        column: line.length - line.trimStart().length + 1,
+      },
+      end: { line: index + 1, column: line.length + 1 },
+    };
+    const match = line.match(/^( {0,3}#{1,6})([ \t].*)?$/);
+    if (!match) {
+      if (/^ {0,3}#{1,6}[^#\s]/.test(line)) {
+        this.report(
+          "malformed-header",
+          "warning",
+          "A header needs a space after the #s; this line is a paragraph",
+          position
+        );
+      }
+      return undefined;
     }
+
+    // Strip the optional closing sequence of `#`s, e.g. `## Title ##`.
+    const rest = (match[2] || "").replace(/(?:^|[ \t]+)#+[ \t]*$/, "");
+    const content = rest.trim();
+
+    return {
+      type: "header",
+      raw: line,
+      text: content,
+      depth: match[1].trim().length,
+      position,
+      children: this.parseInline(content, {
+        line: index + 1,
+        column: match[1].length + rest.indexOf(content) + 1,
+      }),
+    };
   }
 
   /**
-   * Converts a text string into a URL-friendly slug.
+   * Parses a paragraph spanning consecutive lines into a token, following CommonMark:
+   * the paragraph runs until a blank line or a line starting a block that can interrupt
+   * a paragraph, and becomes a setext header if it is followed by a `===` or `---` underline.
    *
    * @private
-   * @param {string} text - The text to slugify.
-   * @returns {string} The slugified text.
+   * @param {string[]} lines - The array of lines containing the paragraph.
+   * @param {number} startIndex - The starting index of the paragraph in the lines array.
+   * @returns {{ token: Token; newIndex: number }} An object containing the paragraph or header token and the new index.
    */
-  private slugify(text: string): string {
-    return text
-      .toLowerCase()
-      .replace(/[^a-z0-9 -]/g, "")
-      .replace(/\s+/g, "-")
-      .replace(/-+/g, "-");
+  private parseParagraph(
+    lines: string[],
+    startIndex: number
+  ): { token: Token; newIndex: number } {
+    let i = startIndex;
+    let depth: number | undefined;
+
+    while (i + 1 < lines.length && lines[i + 1].trim() !== "") {
+      const underline = lines[i + 1].match(SETEXT_UNDERLINE);
+      if (underline) {
+        depth = underline[1].startsWith("=") ? 1 : 2;
+        break;
+      }
+      if (this.interruptsParagraph(lines[i + 1])) break;
+      i++;
+    }
+
+    if (depth) {
+      const { text, starts } = this.paragraphText(lines, startIndex, i);
+      return {
+        token: {
+          type: "header",
+          raw: lines.slice(startIndex, i + 2).join("\n"),
+          text,
+          depth,
+          position: this.span(lines, startIndex, i + 1),
+          children: this.parseInline(text, starts),
+        },
+        newIndex: i + 1,
+      };
+    }
+
+    return { token: this.createParagraph(lines, startIndex, i), newIndex: i };
+  }
+
+  /**
+   * Creates a paragraph token from consecutive lines.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines.
+   * @param {number} startIndex - The index of the first line of the paragraph.
+   * @param {number} endIndex - The index of the last line of the paragraph.
+   * @returns {Token} The paragraph token.
+   */
+  private createParagraph(
+    lines: string[],
+    startIndex: number,
+    endIndex: number
+  ): Token {
+    const { text, starts } = this.paragraphText(lines, startIndex, endIndex);
+    return {
+      type: "paragraph",
+      raw: lines.slice(startIndex, endIndex + 1).join("\n"),
+      position: this.span(lines, startIndex, endIndex),
+      children: this.parseInline(text, starts),
+    };
+  }
+
+  /**
+   * Joins the lines of a paragraph into its inline text, without the indentation of each line.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines.
+   * @param {number} startIndex - The index of the first line of the paragraph.
+   * @param {number} endIndex - The index of the last line of the paragraph.
+   * @returns {{ text: string; starts: Position[] }} The text, and the source position of each of its lines.
+   */
+  private paragraphText(
+    lines: string[],
+    startIndex: number,
+    endIndex: number
+  ): { text: string; starts: Position[] } {
+    const content = lines.slice(startIndex, endIndex + 1);
+    const text = content
+      .map((line) => line.trimStart())
+      .join("\n")
+      .trimEnd();
+    const starts = content.map((line, k) => ({
+      line: startIndex + k + 1,
+      column: line.length - line.trimStart().length + 1,
+    }));
+    return { text, starts };
+  }
+
+  /**
+   * Checks whether a line starts a block that can interrupt a paragraph: an ATX header,
+   * a code fence, a blockquote, a thematic break, an HTML block (other than a lone tag),
+   * or a non-empty list item (ordered items only when starting at 1).
+   *
+   * @private
+   * @param {string} line - The line to check.
+   * @returns {boolean} True if the line interrupts a paragraph, otherwise false.
+   */
+  private interruptsParagraph(line: string): boolean {
+    const html = this.matchHtmlBlockStart(line);
+    return (
+      /^ {0,3}#{1,6}(?:[ \t]|$)/.test(line) ||
+      !!this.matchFence(line) ||
+      /^ {0,3}>/.test(line) ||
+      THEMATIC_BREAK.test(line) ||
+      (!!html && !html.loneTag) ||
+      /^ {0,3}(?:[-*+]|1[.)])[ \t]+\S/.test(line)
+    );
+  }
+
+  /**
+   * Parses a Markdown blockquote into a token.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines containing the blockquote.
+   * @param {number} startIndex - The starting index of the blockquote in the lines array.
+   * @returns {{ token: Token; newIndex: number }} An object containing the blockquote token and the new index.
+   */
+  private parseBlockquote(
+    lines: string[],
+    startIndex: number
+  ): { token: Token; newIndex: number } {
+    const content: string[] = [];
+    const origins: Position[] = [];
+    let i = startIndex;
+    let lastIndex = startIndex;
+
+    if (this.options.commonmark) {
+      // A blockquote ends at a blank line; other lines without a `>` marker
+      // continue it lazily as long as they continue a paragraph.
+      while (i < lines.length && lines[i].trim() !== "") {
+        const marker = lines[i].match(/^ {0,3}> ?/);
+        if (!marker) {
+          const previous = content[content.length - 1];
+          const continuesParagraph =
+            previous.trim() !== "" &&
+            !INDENTED_CODE.test(previous) &&
+            !this.matchFence(previous) &&
+            !/^ {0,3}#/.test(previous) &&
+            !THEMATIC_BREAK.test(previous);
+          if (!continuesParagraph || this.interruptsParagraph(lines[i])) break;
+        }
+        const prefix = marker ? marker[0].length : 0;
+        content.push(lines[i].slice(prefix));
+        origins.push({ line: i + 1, column: prefix + 1 });
+        lastIndex = i;
+        i++;
+      }
+    } else {
+      while (
+        i < lines.length &&
+        (lines[i].startsWith(">") || lines[i].trim() === "")
+      ) {
+        if (lines[i].trim() !== "") {
+          const stripped = lines[i].slice(1);
+          content.push(stripped.trim());
+          origins.push({
+            line: i + 1,
+            column: 2 + stripped.length - stripped.trimStart().length,
+          });
+          lastIndex = i;
+        }
+        i++;
+      }
+    }
+
+    const diagnosticsFrom = this.diagnostics.length;
+    const children = this.tokenize(content.join("\n"));
+    this.relocate(
+      children,
+      (position) => {
+        const origin = origins[position.line - 1];
+        return {
+          line: origin.line,
+          column: origin.column + position.column - 1,
+        };
+      },
+      diagnosticsFrom
+    );
+
+    return {
+      token: {
+        type: "blockquote",
+        raw: lines.slice(startIndex, i).join("\n"),
+        position: this.span(lines, startIndex, lastIndex),
+        children,
+      },
+      newIndex: i - 1,
+    };
+  }
+
+  /**
+   * Parses a raw HTML block into a token, following CommonMark's HTML block start and end conditions:
+   * `<script>`, `<pre>`, `<style>` and `<textarea>` blocks run to their closing tag, comments run to `-->`,
+   * and blocks starting with a block-level tag or a lone complete tag run to the next blank line.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines containing the HTML block.
+   * @param {number} startIndex - The starting index of the HTML block in the lines array.
+   * @returns {{ token: Token; newIndex: number } | undefined} An object containing the HTML block token and the new index, or undefined if no HTML block starts here.
+   */
+  private parseHtmlBlock(
+    lines: string[],
+    startIndex: number
+  ): { token: Token; newIndex: number } | undefined {
+    const start = this.matchHtmlBlockStart(lines[startIndex]);
+    if (!start) return undefined;
+    const { end } = start;
+
+    let i = startIndex;
+    if (end) {
+      while (i < lines.length - 1 && !end.test(lines[i])) i++;
+    } else {
+      while (i < lines.length - 1 && lines[i + 1].trim() !== "") i++;
+    }
+
+    const raw = lines.slice(startIndex, i + 1).join("\n");
+    return {
+      token: { type: "html_block", raw, text: raw },
+      newIndex: i,
+    };
+  }
+
+  /**
+   * Matches the start condition of an HTML block.
+   *
+   * @private
+   * @param {string} line - The line to match.
+   * @returns {{ end?: RegExp; loneTag: boolean } | undefined} The pattern of the line ending the block (none for blocks ending at a blank line) and whether the block starts with a lone tag, which cannot interrupt a paragraph; or undefined if no HTML block starts here.
+   */
+  private matchHtmlBlockStart(
+    line: string
+  ): { end?: RegExp; loneTag: boolean } | undefined {
+    if (/^ {0,3}<(script|pre|style|textarea)(\s|>|$)/i.test(line)) {
+      return { end: /<\/(script|pre|style|textarea)>/i, loneTag: false };
+    }
+    if (/^ {0,3}<!--/.test(line)) {
+      return { end: /-->/, loneTag: false };
+    }
+
+    const tag = line.match(/^ {0,3}<\/?([a-zA-Z][a-zA-Z0-9-]*)(\s|\/?>|$)/);
+    if (tag && HTML_BLOCK_TAGS.includes(tag[1].toLowerCase())) {
+      return { loneTag: false };
+    }
+    const isLoneTag =
+      /^ {0,3}(?:<[a-zA-Z][a-zA-Z0-9-]*(?:\s+[a-zA-Z_:][a-zA-Z0-9_.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<\/[a-zA-Z][a-zA-Z0-9-]*\s*>)\s*$/.test(
+        line
+      );
+    return isLoneTag ? { loneTag: true } : undefined;
+  }
+
+  /**
+   * Matches the opening line of a fenced code block: at least three backticks or tildes,
+   * indented by up to three spaces, followed by an info string.
+   *
+   * @private
+   * @param {string} line - The line to match.
+   * @returns {{ indent: number; fence: string; info: string } | undefined} The indentation, the fence and the trimmed info string, or undefined if the line does not open a fence.
+   */
+  private matchFence(
+    line: string
+  ): { indent: number; fence: string; info: string } | undefined {
+    const match = line.match(/^( {0,3})(`{3,}|~{3,})(.*)$/);
+    if (!match || (match[2][0] === "`" && match[3].includes("`"))) {
+      return undefined;
+    }
+    return { indent: match[1].length, fence: match[2], info: match[3].trim() };
+  }
+
+  /**
+   * Parses a display math block into a token: `$$ TeX $$` on one line, or TeX between a line
+   * starting with `$$` and a line ending with `$$`. The TeX is kept as is, without inline parsing.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines containing the math block.
+   * @param {number} startIndex - The starting index of the math block in the lines array.
+   * @returns {{ token: Token; newIndex: number } | undefined} An object containing the math block token and the new index, or undefined if no closed math block starts here.
+   */
+  private parseMathBlock(
+    lines: string[],
+    startIndex: number
+  ): { token: Token; newIndex: number } | undefined {
+    const opening = lines[startIndex].match(/^ {0,3}\$\$(.*)$/);
+    if (!opening) return undefined;
+
+    const first = opening[1].trimEnd();
+    if (first.endsWith("$$")) {
+      return {
+        token: {
+          type: "math_block",
+          raw: lines[startIndex],
+          text: first.slice(0, -2).trim(),
+        },
+        newIndex: startIndex,
+      };
+    }
+
+    // No line after the recorded one ends a math block, so a later opening line is not one either.
+    if (startIndex >= (this.unclosedMathBlocks.get(lines) ?? Infinity)) {
+      return undefined;
+    }
+
+    const content = first.trim() ? [first.trim()] : [];
+    for (let i = startIndex + 1; i < lines.length; i++) {
+      const line = lines[i].trimEnd();
+      if (line.endsWith("$$")) {
+        const last = line.slice(0, -2);
+        if (last.trim()) content.push(last);
+        return {
+          token: {
+            type: "math_block",
+            raw: lines.slice(startIndex, i + 1).join("\n"),
+            text: content.join("\n"),
+          },
+          newIndex: i,
+        };
+      }
+      content.push(lines[i]);
+    }
+
+    this.unclosedMathBlocks.set(lines, startIndex);
+    return undefined;
+  }
+
+  /**
+   * Parses a Markdown code block into a token.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines containing the code block.
+   * @param {number} startIndex - The starting index of the code block in the lines array.
+   * @returns {{ token: Token; newIndex: number }} An object containing the code block token and the new index.
+   */
+  private parseCodeBlock(
+    lines: string[],
+    startIndex: number
+  ): { token: Token; newIndex: number } {
+    const content: string[] = [];
+    let i = startIndex + 1;
+    const { indent, fence, info } = this.matchFence(lines[startIndex])!;
+    const closing = new RegExp(`^ {0,3}${fence[0]}{${fence.length},}[ \\t]*$`);
+
+    while (i < lines.length && !closing.test(lines[i])) {
+      // Content lines lose up to as much indentation as the opening fence had.
+      const leading = lines[i].length - lines[i].trimStart().length;
+      content.push(lines[i].slice(Math.min(indent, leading)));
+      i++;
+    }
+
+    if (i >= lines.length) {
+      const diagnostic: Diagnostic = {
+        code: "unclosed-fence",
+        severity: this.options.commonmark ? "warning" : "error",
+        message: `Unclosed code block; expected a closing ${fence}`,
+        position: this.span(lines, startIndex, startIndex),
+      };
+      // CommonMark closes an unterminated fence at the end of the document.
+      if (!this.options.commonmark) throw new MarkyfyError(diagnostic);
+      this.diagnostics.push(diagnostic);
+      i = lines.length - 1;
+    }
+
+    const { lang, meta } = this.parseInfoString(info, content.length);
+    return {
+      token: {
+        type: "code_block",
+        raw: lines.slice(startIndex, i + 1).join("\n"),
+        text: content.join("\n"),
+        lang,
+        ...(meta && { meta }),
+        position: this.span(lines, startIndex, i),
+      },
+      newIndex: i,
+    };
+  }
+
+  /**
+   * Splits the info string of a fenced code block into the language (its first word) and the
+   * metadata after it: `key=value` attributes (values may be quoted), bare flags such as
+   * `showLineNumbers`, and line ranges such as `{1,3-5}`. An info string starting with
+   * an attribute or a line range has no language. Line ranges are clamped to the lines of the code.
+   *
+   * @private
+   * @param {string} info - The trimmed info string.
+   * @param {number} lineCount - The number of lines in the code block.
+   * @returns {{ lang: string; meta?: CodeBlockMeta }} The language and, if the info string has any, the metadata.
+   */
+  private parseInfoString(
+    info: string,
+    lineCount: number
+  ): {
+    lang: string;
+    meta?: CodeBlockMeta;
+  } {
+    const first = info.match(/^[^\s{=]+(?=\s|$)/);
+    const lang = first ? first[0] : "";
+    const raw = info.slice(lang.length).trim();
+    if (!raw) return { lang };
+
+    const meta: CodeBlockMeta = {
+      raw,
+      showLineNumbers: false,
+      startLine: 1,
+      highlightLines: [],
+      attributes: {},
+    };
+    const pattern =
+      /\{([\d\s,-]*)\}|([^\s=]+)(?:=(?:"([^"]*)"|'([^']*)'|(\S+)))?/g;
+    const highlightLines = new Set<number>();
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(raw)) !== null) {
+      if (match[1] !== undefined) {
+        for (const range of match[1].split(",")) {
+          const [from, to = from] = range.split("-").map(Number);
+          const last = Math.min(to, lineCount);
+          for (let line = Math.max(from, 1); line <= last; line++) {
+            highlightLines.add(line);
+          }
+        }
+        continue;
+      }
+      meta.attributes[match[2]] = match[3] ?? match[4] ?? match[5] ?? true;
+    }
+
+    meta.highlightLines = [...highlightLines].sort((a, b) => a - b);
+    const { title, filename, showLineNumbers } = meta.attributes;
+    if (typeof (title ?? filename) === "string") {
+      meta.title = (title ?? filename) as string;
+    }
+    if (showLineNumbers !== undefined) {
+      meta.showLineNumbers = true;
+      meta.startLine = Number(showLineNumbers) || 1;
+    }
+
+    return { lang, meta };
+  }
+
+  /**
+   * Parses an indented code block (lines indented by four or more spaces) into a token.
+   * Blank lines inside the block are kept, while trailing blank lines are not part of it.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines containing the code block.
+   * @param {number} startIndex - The starting index of the code block in the lines array.
+   * @returns {{ token: Token; newIndex: number }} An object containing the code block token and the new index.
+   */
+  private parseIndentedCodeBlock(
+    lines: string[],
+    startIndex: number
+  ): { token: Token; newIndex: number } {
+    let i = startIndex;
+    let lastIndex = startIndex;
+
+    while (
+      i < lines.length &&
+      (INDENTED_CODE.test(lines[i]) || lines[i].trim() === "")
+    ) {
+      if (lines[i].trim() !== "") lastIndex = i;
+      i++;
+    }
+
+    const content = lines
+      .slice(startIndex, lastIndex + 1)
+      .map((line) => line.replace(/^(?: {1,4}|\t)/, ""));
+
+    return {
+      token: {
+        type: "code_block",
+        raw: lines.slice(startIndex, lastIndex + 1).join("\n"),
+        text: content.join("\n"),
+        lang: "",
+        position: this.span(lines, startIndex, lastIndex),
+      },
+      newIndex: lastIndex,
+    };
+  }
+
+  /**
+   * Parses a Markdown list into a token.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines containing the list.
+   * @param {number} startIndex - The starting index of the list in the lines array.
+   * @returns {{ token: Token; newIndex: number }} An object containing the list token and the new index.
+   */
+  private parseList(
+    lines: string[],
+    startIndex: number
+  ): { token: Token; newIndex: number } {
+    const items: Token[] = [];
+    let i = startIndex;
+    let currentIndent = 0;
+    const listStack: Token[][] = [items];
+    const levels = [0];
+    const looseLists = new Set<Token[]>();
+    let afterBlank = false;
+    // The lines of each item, lexed as inline text once the list is complete.
+    const itemLines = new Map<Token, { lines: string[]; starts: Position[] }>();
+
+    const firstLine = lines[startIndex].trim();
+    const isOrderedList = /^\d+\.\s/.test(firstLine);
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      // In CommonMark mode, blank lines between items continue the list and make it loose.
+      if (this.options.commonmark && !line.trim()) {
+        let next = i + 1;
+        while (next < lines.length && !lines[next].trim()) next++;
+        const nextLine = (lines[next] || "").trim();
+        if (!(isOrderedList ? /^\d+\.\s+\S/ : /^[-*+]\s+\S/).test(nextLine)) {
+          break;
+        }
+        afterBlank = true;
+        i = next;
+        continue;
+      }
+
+      const indentMatch = line.match(/^(\s*)/);
+      const indent = indentMatch ? indentMatch[1].length : 0;
+
+      const isOrderedItem = /^\d+\.\s+(.+)$/.test(line.trim());
+      const isUnorderedItem = /^[-*+]\s+(.+)$/.test(line.trim());
+
+      const isValidListItem = isOrderedList ? isOrderedItem : isUnorderedItem;
+      const listItemMatch = line
+        .trim()
+        .match(isOrderedList ? /^(\d+\.)\s+(.+)$/ : /^([-*+])\s+(.+)$/);
+
+      if (!listItemMatch || !isValidListItem) {
+        if (indent > currentIndent && line.trim()) {
+          const currentList = listStack[listStack.length - 1];
+          if (currentList.length > 0) {
+            const lastItem = currentList[currentList.length - 1];
+            const item = itemLines.get(lastItem);
+            if (item) {
+              item.lines.push(line.trimStart());
+              item.starts.push({ line: i + 1, column: indent + 1 });
+              if (lastItem.position) {
+                lastItem.position.end = this.span(lines, i, i).end;
+              }
+            }
+          }
+          i++;
+          continue;
+        }
+        break;
+      }
+
+      const [, marker, content] = listItemMatch;
+
+      if (indent > currentIndent) {
+        const newList: Token[] = [];
+        const parentList = listStack[listStack.length - 1];
+        if (parentList.length > 0) {
+          const lastItem = parentList[parentList.length - 1];
+          lastItem.items = newList;
+        }
+        listStack.push(newList);
+        levels.push(indent);
+        currentIndent = indent;
+      } else if (indent < currentIndent) {
+        while (levels.length > 1 && levels[levels.length - 1] > indent) {
+          levels.pop();
+        }
+        if (levels[levels.length - 1] !== indent) {
+          this.report(
+            "inconsistent-list-indent",
+            "warning",
+            `List item indented by ${indent} spaces, which matches none of the enclosing items`,
+            this.span(lines, i, i)
+          );
+          levels.push(indent);
+        }
+        while (indent < currentIndent && listStack.length > 1) {
+          listStack.pop();
+          currentIndent -= 2;
+        }
+      }
+
+      const currentList = listStack[listStack.length - 1];
+      if (afterBlank) looseLists.add(currentList);
+      afterBlank = false;
+      const taskMatch = this.options.gfm
+        ? content.match(/^\[([ xX])\]\s+(.*)$/)
+        : null;
+      const itemText = taskMatch ? taskMatch[2] : content;
+      const column = line.trimEnd().length - itemText.length + 1;
+      const item: Token = {
+        type: "list_item",
+        raw: line,
+        text: itemText,
+        ordered: isOrderedList,
+        ...(taskMatch && { task: true, checked: taskMatch[1] !== " " }),
+        position: this.span(lines, i, i),
+      };
+      currentList.push(item);
+      // The first line keeps its trailing spaces, which may end in a hard line break.
+      itemLines.set(item, {
+        lines: [line.slice(column - 1)],
+        starts: [{ line: i + 1, column }],
+      });
+
+      i++;
+    }
+
+    for (const [item, { lines, starts }] of itemLines) {
+      item.text = lines.join("\n").trimEnd();
+      item.children = this.parseInline(item.text, starts);
+    }
+
+    for (const list of looseLists) {
+      for (const item of list) item.loose = true;
+    }
+
+    return {
+      token: {
+        type: "list",
+        raw: lines.slice(startIndex, i).join("\n"),
+        ordered: isOrderedList,
+        items: items,
+        position: this.span(lines, startIndex, i - 1),
+      },
+      newIndex: i - 1,
+    };
+  }
+
+  /**
+   * Checks whether the line at the given index starts a GFM table, i.e. it is
+   * followed by a delimiter row with the same number of columns.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines to inspect.
+   * @param {number} index - The index of the candidate header row.
+   * @returns {boolean} True if a table starts at the given index, otherwise false.
+   */
+  private isTableStart(lines: string[], index: number): boolean {
+    const header = lines[index];
+    const delimiter = lines[index + 1];
+    if (!header.includes("|") || delimiter === undefined) return false;
+    if (!/^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(delimiter)) {
+      return false;
+    }
+    return (
+      this.splitTableRow(header).length === this.splitTableRow(delimiter).length
+    );
+  }
+
+  /**
+   * Parses a GFM table into a token.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines containing the table.
+   * @param {number} startIndex - The starting index of the table (its header row) in the lines array.
+   * @returns {{ token: Token; newIndex: number }} An object containing the table token and the new index.
+   */
+  private parseTable(
+    lines: string[],
+    startIndex: number
+  ): { token: Token; newIndex: number } {
+    const aligns: TableAlign[] = this.splitTableRow(lines[startIndex + 1]).map(
+      ({ text }) => {
+        const left = text.startsWith(":");
+        const right = text.endsWith(":");
+        if (left && right) return "center";
+        if (right) return "right";
+        if (left) return "left";
+        return null;
+      }
+    );
+
+    const toRow = (index: number, header: boolean): Token => {
+      const line = lines[index];
+      const position = this.span(lines, index, index);
+      const cells = this.splitTableRow(line);
+      return {
+        type: "table_row",
+        raw: line,
+        header,
+        position,
+        children: aligns.map((align, column) => {
+          const cell = cells[column];
+          if (!cell) {
+            return {
+              type: "table_cell",
+              raw: "",
+              text: "",
+              header,
+              align,
+              position: { start: position.end, end: position.end },
+              children: [],
+            };
+          }
+          const start = { line: index + 1, column: cell.start + 1 };
+          return {
+            type: "table_cell",
+            raw: line.slice(cell.start, cell.end),
+            text: cell.text,
+            header,
+            align,
+            position: {
+              start,
+              end: { line: index + 1, column: cell.end + 1 },
+            },
+            children: this.parseInline(cell.text, start),
+          };
+        }),
+      };
+    };
+
+    const rows: Token[] = [toRow(startIndex, true)];
+    let i = startIndex + 2;
+
+    while (
+      i < lines.length &&
+      lines[i].trim() !== "" &&
+      !/^(#|>|```)/.test(lines[i])
+    ) {
+      rows.push(toRow(i, false));
+      i++;
+    }
+
+    return {
+      token: {
+        type: "table",
+        raw: lines.slice(startIndex, i).join("\n"),
+        position: this.span(lines, startIndex, i - 1),
+        children: rows,
+      },
+      newIndex: i - 1,
+    };
+  }
+
+  /**
+   * Splits a table row into its cells, honoring escaped pipes (`\|`).
+   * Each cell carries its trimmed, unescaped text and the offsets of its
+   * trimmed source within the line.
+   *
+   * @private
+   * @param {string} line - The table row to split.
+   * @returns {{ text: string; start: number; end: number }[]} The cells of the row.
+   */
+  private splitTableRow(
+    line: string
+  ): { text: string; start: number; end: number }[] {
+    let from = line.length - line.trimStart().length;
+    let to = line.trimEnd().length;
+    if (line[from] === "|") from++;
+    if (to > from && line[to - 1] === "|" && line[to - 2] !== "\\") to--;
+
+    const cells: { text: string; start: number; end: number }[] = [];
+    let cellStart = from;
+    let current = "";
+    for (let i = from; i <= to; i++) {
+      if (i === to || line[i] === "|") {
+        const raw = line.slice(cellStart, i);
+        const trimmed = raw.trim();
+        const start = cellStart + raw.indexOf(trimmed);
+        cells.push({
+          text: current.trim(),
+          start,
+          end: start + trimmed.length,
+        });
+        cellStart = i + 1;
+        current = "";
+      } else if (line[i] === "\\" && line[i + 1] === "|") {
+        current += "|";
+        i++;
+      } else {
+        current += line[i];
+      }
+    }
+
+    return cells;
+  }
+
+  /**
+   * Computes the source position spanning the given lines, from the first
+   * non-whitespace character of the first line to the end of the last line.
+   *
+   * @private
+   * @param {string[]} lines - The array of lines of the document.
+   * @param {number} startIndex - The index of the first line.
+   * @param {number} endIndex - The index of the last line.
+   * @returns {TokenPosition} The position spanning the lines.
+   */
+  private span(
+    lines: string[],
+    startIndex: number,
+    endIndex: number
+  ): TokenPosition {
+    const first = lines[startIndex];
+    return {
+      start: {
+        line: startIndex + 1,
+        column: first.length - first.trimStart().length + 1,
+      },
+      end: { line: endIndex + 1, column: lines[endIndex].length + 1 },
+    };
+  }
+
+  /**
+   * Creates a function that maps offsets within `text` to source positions.
+   *
+   * @private
+   * @param {string} text - The text the offsets refer to.
+   * @param {Position | Position[]} start - The source position of the first character of `text`, or of each of its lines.
+   * @returns {(from: number, to: number) => TokenPosition} A function returning the position spanning two offsets.
+   */
+  private locator(
+    text: string,
+    start: Position | Position[]
+  ): (from: number, to: number) => TokenPosition {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === "\n") lineStarts.push(i + 1);
+    }
+
+    const point = (offset: number): Position => {
+      let line = 0;
+      let last = lineStarts.length - 1;
+      while (line < last) {
+        const middle = (line + last + 1) >> 1;
+        if (lineStarts[middle] <= offset) line = middle;
+        else last = middle - 1;
+      }
+      if (Array.isArray(start)) {
+        const origin = start[line] || start[start.length - 1];
+        return {
+          line: origin.line,
+          column: origin.column + offset - lineStarts[line],
+        };
+      }
+      return line === 0
+        ? { line: start.line, column: start.column + offset }
+        : { line: start.line + line, column: offset - lineStarts[line] + 1 };
+    };
+
+    return (from, to) => ({ start: point(from), end: point(to) });
+  }
+
+  /**
+   * Rewrites the positions of a token tree in place, e.g. to map positions
+   * relative to a blockquote's content back onto the document.
+   *
+   * @private
+   * @param {Token[]} tokens - The tokens to relocate.
+   * @param {(position: Position) => Position} map - A function mapping a relative position to its source position.
+   * @param {number} [diagnosticsFrom] - The index of the first diagnostic reported for the tokens, to relocate the diagnostics as well.
+   */
+  private relocate(
+    tokens: Token[],
+    map: (position: Position) => Position,
+    diagnosticsFrom?: number
+  ): void {
+    if (diagnosticsFrom !== undefined) {
+      for (const diagnostic of this.diagnostics.slice(diagnosticsFrom)) {
+        if (diagnostic.position) {
+          diagnostic.position = {
+            start: map(diagnostic.position.start),
+            end: map(diagnostic.position.end),
+          };
+        }
+      }
+    }
+    for (const token of tokens) {
+      if (token.position) {
+        token.position = {
+          start: map(token.position.start),
+          end: map(token.position.end),
+        };
+      }
+      if (token.children) this.relocate(token.children, map);
+      if (token.items) this.relocate(token.items, map);
+    }
+  }
+
+  /**
+   * Converts an array of tokens into an HTML string, one block per line. Tokens that render
+   * nothing, such as front matter and definitions, leave no blank line behind.
+   *
+   * @private
+   * @param {Token[]} tokens - The array of tokens to convert.
+   * @returns {string} The resulting HTML string.
+   */
+  private tokensToHtml(tokens: Token[]): string {
+    const html = tokens
+      .map((token) => {
+        const hook =
+          this.options.renderer[token.type] ??
+          this.extensionRenderers[token.type];
+        if (!hook) return this.renderToken(token);
+
+        const output = hook(token, {
+          renderChildren: (children = token.children ?? token.items) =>
+            this.renderChildren(children),
+          renderDefault: () => this.renderToken(token),
+          escapeHtml: (text) => this.escapeHtml(text),
+        });
+        return this.options.sanitize
+          ? this.sanitizer.sanitizeHtml(output)
+          : output;
+      })
+      .filter((html) => html !== "")
+      .join("\n");
+
+    return html;
+  }
+
+  /**
+   * Converts a single token into HTML using the built-in output for its type.
+   *
+   * @private
+   * @param {Token} token - The token to convert.
+   * @returns {string} The resulting HTML string.
+   */
+  private renderToken(token: Token): string {
+    switch (token.type) {
+      case "header":
+        const id = this.headerIds.has(token)
+          ? ` id="${this.escapeHtml(this.headerIds.get(token)!)}"`
+          : "";
+        return `<h${token.depth}${id}>${this.renderChildren(
+          token.children
+        )}</h${token.depth}>`;
+
+      case "code_block": {
+        if (this.options.highlight) return this.renderExternalCode(token);
+
+        const { autoDetect } = this.options;
+        const detected =
+          !token.lang && autoDetect
+            ? this.syntaxHighlighter.highlightAuto(
+                token.text || "",
+                Array.isArray(autoDetect) ? autoDetect : undefined
+              )
+            : undefined;
+        const lang = token.lang || detected?.language;
+        const className = lang
+          ? ` class="language-${this.escapeHtml(lang)}"`
+          : "";
+        if (token.meta) {
+          return this.renderCodeLines(
+            token.text || "",
+            lang || "",
+            className,
+            token.meta
+          );
+        }
+
+        const highlighted = detected
+          ? detected.value
+          : this.syntaxHighlighter.highlight(token.text || "", lang || "");
+        return `<pre><code${className}>${highlighted}</code></pre>`;
+      }
+
+      case "paragraph":
+        return `<p>${this.renderChildren(token.children)}</p>`;
+
+      case "line_break":
+        return "<br>\n";
+
+      case "blockquote":
+        return `<blockquote>${this.tokensToHtml(
+          token.children || []
+        )}</blockquote>`;
+
+      case "list": {
+        const tag = token.ordered ? "ol" : "ul";
+        return `<${tag}>\n${this.tokensToHtml(token.items || [])}\n</${tag}>`;
+      }
+
+      case "list_item": {
+        const tag = token.ordered ? "ol" : "ul";
+        const itemContent = token.loose
+          ? `\n<p>${this.renderChildren(token.children)}</p>\n`
+          : this.renderChildren(token.children);
+        const nestedList = token.items
+          ? `\n<${tag}>\n${this.tokensToHtml(token.items)}\n</${tag}>\n`
+          : "";
+        if (token.task) {
+          const checked = token.checked ? " checked" : "";
+          return `<li class="task-list-item"><input type="checkbox" disabled${checked}> ${itemContent}${nestedList}</li>`;
+        }
+        return `<li>${itemContent}${nestedList}</li>`;
+      }
+
+      case "table": {
+        const [head, ...body] = token.children || [];
+        const thead = head
+          ? `<thead>\n${this.tokensToHtml([head])}\n</thead>`
+          : "";
+        const tbody = body.length
+          ? `\n<tbody>\n${this.tokensToHtml(body)}\n</tbody>`
+          : "";
+        return `<table>\n${thead}${tbody}\n</table>`;
+      }
+
+      case "table_row":
+        return `<tr>\n${this.tokensToHtml(token.children || [])}\n</tr>`;
+
+      case "table_cell": {
+        const tag = token.header ? "th" : "td";
+        const align = token.align ? ` align="${token.align}"` : "";
+        return `<${tag}${align}>${this.renderChildren(
+          token.children
+        )}</${tag}>`;
+      }
+
+      case "strikethrough":
+        return `<del>${this.renderInlineContent(token)}</del>`;
+
+      case "bold":
+        return `<strong>${this.renderInlineContent(token)}</strong>`;
+
+      case "italic":
+        return `<em>${this.renderInlineContent(token)}</em>`;
+
+      case "code":
+        return `<code>${this.escapeHtml(token.text || "")}</code>`;
+
+      case "link": {
+        const title = token.title
+          ? ` title="${this.escapeHtml(token.title)}"`
+          : "";
+        return `<a href="${this.escapeHtml(
+          this.resolveUrl(token)
+        )}"${title}>${this.renderInlineContent(token)}</a>`;
+      }
+
+      case "image": {
+        const title = token.title
+          ? ` title="${this.escapeHtml(token.title)}"`
+          : "";
+        const loading = this.options.lazyImages ? ` loading="lazy"` : "";
+        return `<img src="${this.escapeHtml(
+          this.resolveUrl(token)
+        )}" alt="${this.escapeHtml(
+          token.children ? this.plainText(token.children) : token.text || ""
+        )}"${title}${loading}>`;
+      }
+
+      case "definition":
+      case "front_matter":
+      case "footnote_definition":
+        return "";
+
+      case "footnote_ref": {
+        const reference = this.footnotes?.references.get(token);
+        if (!reference) {
+          return this.escapeHtml(token.raw);
+        }
+        const { number, occurrence } = reference;
+        return `<sup class="footnote-ref"><a href="#fn:${number}" id="${this.footnoteRefId(
+          number,
+          occurrence
+        )}">${number}</a></sup>`;
+      }
+
+      case "thematic_break":
+        return "<hr>";
+
+      case "math_block":
+        return `<div class="math">${this.escapeHtml(token.text || "")}</div>`;
+
+      case "math_inline":
+        return `<span class="math${
+          token.display ? " math-display" : ""
+        }">${this.escapeHtml(token.text || "")}</span>`;
+
+      case "toc":
+        return this.renderTocNav(this.tableOfContents(this.headerIds));
+
+      case "html_block":
+      case "html_inline": {
+        const html = token.text || "";
+        const policy =
+          this.options.html === "passthrough" && this.options.sanitize
+            ? "filter"
+            : this.options.html;
+        if (policy === "passthrough") return html;
+        if (policy === "filter") {
+          return this.sanitizer.sanitizeHtml(html, RAW_HTML_ID_PREFIX);
+        }
+        return token.type === "html_block"
+          ? `<p>${this.escapeHtml(html)}</p>`
+          : this.escapeHtml(html);
+      }
+
+      default:
+        return this.escapeHtml(token.text || "");
+    }
+  }
+
+  /**
+   * Renders a code block with the external `highlight` option, using the result awaited by
+   * {@link Markyfy.parseAsync} if there is one. A result that is a complete `<pre>` block is
+   * used as is; any other result becomes the content of the `<code>` element. If the highlighter
+   * fails, only this block falls back to escaped code.
+   *
+   * @private
+   * @param {Token} token - The code block token.
+   * @returns {string} The HTML string.
+   */
+  private renderExternalCode(token: Token): string {
+    const lang = token.lang || "";
+    let highlighted: string | Promise<string>;
+    try {
+      const settled = this.highlighted?.get(token);
+      if (settled?.status === "rejected") throw settled.reason;
+      highlighted =
+        settled?.value ??
+        this.options.highlight!(token.text || "", lang, token.meta);
+    } catch (error) {
+      this.report(
+        "parse-error",
+        "error",
+        error instanceof Error ? error.message : String(error),
+        token.position
+      );
+      highlighted = this.escapeHtml(token.text || "");
+    }
+
+    if (typeof highlighted !== "string") {
+      this.report(
+        "async-highlight",
+        "error",
+        "The highlight option returned a Promise; use parseAsync() to await it.",
+        token.position
+      );
+      highlighted.catch(() => undefined);
+      highlighted = this.escapeHtml(token.text || "");
+    }
+
+    const className = lang ? ` class="language-${this.escapeHtml(lang)}"` : "";
+    const pre = /^\s*<pre[\s>]/i.test(highlighted)
+      ? highlighted
+      : `<pre><code${className}>${highlighted}</code></pre>`;
+
+    return this.renderCodeTitle(pre, token.meta);
+  }
+
+  /**
+   * Collects the code block tokens of a token tree, including those nested in blockquotes,
+   * lists and extension tokens.
+   *
+   * @private
+   * @param {Token[]} tokens - The tokens to search.
+   * @returns {Token[]} The code block tokens, in document order.
+   */
+  private findCodeBlocks(tokens: Token[]): Token[] {
+    return tokens.flatMap((token) => [
+      ...(token.type === "code_block" ? [token] : []),
+      ...this.findCodeBlocks(token.children || []),
+      ...this.findCodeBlocks(token.items || []),
+    ]);
+  }
+
+  /**
+   * Renders a code block with metadata as one `<span class="line">` per line, so that
+   * stylesheets can add a line number gutter (from `data-line`) and emphasize lines marked
+   * `highlighted`.
+   *
+   * @private
+   * @param {string} code - The code to render.
+   * @param {string} lang - The language to highlight the code in.
+   * @param {string} className - The `class` attribute of the `<code>` element, including the leading space.
+   * @param {CodeBlockMeta} meta - The metadata of the code block.
+   * @returns {string} The HTML string.
+   */
+  private renderCodeLines(
+    code: string,
+    lang: string,
+    className: string,
+    meta: CodeBlockMeta
+  ): string {
+    const highlightLines = new Set(meta.highlightLines);
+    const lines = this.syntaxHighlighter
+      .highlightLines(code, lang)
+      .map((line, index) => {
+        const highlighted = highlightLines.has(index + 1) ? " highlighted" : "";
+        return `<span class="line${highlighted}" data-line="${
+          meta.startLine + index
+        }">${line}</span>`;
+      });
+    const preClass = meta.showLineNumbers ? ' class="line-numbers"' : "";
+    const pre = `<pre${preClass}><code${className}>${lines.join(
+      "\n"
+    )}</code></pre>`;
+
+    return this.renderCodeTitle(pre, meta);
+  }
+
+  /**
+   * Wraps a rendered code block in a `<figure>` with a `<figcaption>` if its metadata has a title.
+   *
+   * @private
+   * @param {string} pre - The rendered `<pre>` block.
+   * @param {CodeBlockMeta} [meta] - The metadata of the code block.
+   * @returns {string} The HTML string.
+   */
+  private renderCodeTitle(pre: string, meta?: CodeBlockMeta): string {
+    if (!meta?.title) return pre;
+    return `<figure class="code-block"><figcaption class="code-title">${this.escapeHtml(
+      meta.title
+    )}</figcaption>${pre}</figure>`;
+  }
+
+  /**
+   * Renders the content of an inline container token (e.g., bold, link), falling back
+   * to its escaped `text` when it has no children.
+   *
+   * @private
+   * @param {Token} token - The inline container token.
+   * @returns {string} The resulting HTML string.
+   */
+  private renderInlineContent(token: Token): string {
+    return token.children
+      ? this.renderChildren(token.children)
+      : this.escapeHtml(token.text || "");
+  }
+
+  /**
+   * Extracts the plain text of inline tokens, e.g. for an image's `alt` attribute.
+   * Raw HTML tags are left out.
+   *
+   * @private
+   * @param {Token[]} tokens - The inline tokens.
+   * @returns {string} The concatenated text content.
+   */
+  private plainText(tokens: Token[]): string {
+    return tokens
+      .map((token) =>
+        token.type === "html_inline"
+          ? ""
+          : token.children
+          ? this.plainText(token.children)
+          : token.text || ""
+      )
+      .join("");
+  }
+
+  /**
+   * Renders the children tokens of a parent token into an HTML string.
+   *
+   * @private
+   * @param {Token[]} [children] - The array of child tokens to render.
+   * @returns {string} The resulting HTML string.
+   */
+  private renderChildren(children?: Token[]): string {
+    if (!children) return "";
+    return children.map((child) => this.tokensToHtml([child])).join("");
+  }
+
+  /**
+   * Resolves the URL of a link or image token, applying the `rewriteUrl` hook and, if enabled, sanitization.
+   *
+   * @private
+   * @param {Token} token - The link or image token.
+   * @returns {string} The URL to render.
+   */
+  private resolveUrl(token: Token): string {
+    const url = this.options.rewriteUrl(token.url || "", token);
+    return this.options.sanitize ? this.sanitizer.sanitizeUrl(url) : url;
+  }
+
+  /**
+   * Assigns every header in a token tree, including those nested in blockquotes and lists,
+   * an `id` from the `slugify` option. Repeated slugs get a `-1`, `-2`, ... suffix, the way
+   * GitHub de-duplicates them.
+   *
+   * @private
+   * @param {Token[]} tokens - The tokens to search.
+   * @returns {Map<Token, string>} The `id` of each header token.
+   */
+  private collectHeaderIds(tokens: Token[]): Map<Token, string> {
+    const ids = new Map<Token, string>();
+    const occurrences = new Map<string, number>();
+
+    const visit = (tokens: Token[]) => {
+      for (const token of tokens) {
+        if (token.type === "header") {
+          const slug = this.options.slugify(
+            this.plainText(token.children || [])
+          );
+          let id = slug;
+          if (occurrences.has(slug)) {
+            let count = occurrences.get(slug)!;
+            do {
+              id = `${slug}-${++count}`;
+            } while (occurrences.has(id));
+            occurrences.set(slug, count);
+          }
+          occurrences.set(id, 0);
+          ids.set(token, id);
+          continue;
+        }
+        visit(token.children || []);
+        visit(token.items || []);
+      }
+    };
+
+    visit(tokens);
+    return ids;
+  }
+
+  /**
+   * Checks whether a token tree contains a `[[toc]]` placeholder.
+   *
+   * @private
+   * @param {Token[]} tokens - The tokens to search.
+   * @returns {boolean} True if a table of contents is rendered, otherwise false.
+   */
+  private hasTocPlaceholder(tokens: Token[]): boolean {
+    return tokens.some(
+      (token) =>
+        token.type === "toc" ||
+        this.hasTocPlaceholder(token.children || []) ||
+        this.hasTocPlaceholder(token.items || [])
+    );
+  }
+
+  /**
+   * Builds the table of contents of a document from its header `id`s.
+   *
+   * @private
+   * @param {Map<Token, string>} ids - The `id` of each header token.
+   * @returns {TocEntry[]} The top-level entries of the table of contents.
+   */
+  private tableOfContents(ids: Map<Token, string>): TocEntry[] {
+    return buildToc(
+      [...ids].map(([token, id]) => ({
+        text: this.plainText(token.children || []),
+        id,
+        depth: token.depth || 1,
+      })),
+      this.options.toc
+    );
+  }
+
+  /**
+   * Numbers the footnotes of a token tree in the order they are first referenced. References
+   * inside footnotes count after those in the document body. Definitions that are never
+   * referenced are left out.
+   *
+   * @private
+   * @param {Token[]} tokens - The tokens to search.
+   * @returns {{ definitions: Token[]; references: Map<Token, { number: number; occurrence: number }>; counts: number[] }} The referenced definitions in footnote order, the footnote number and occurrence of each reference, and the number of references to each footnote.
+   */
+  private collectFootnotes(tokens: Token[]): {
+    definitions: Token[];
+    references: Map<Token, { number: number; occurrence: number }>;
+    counts: number[];
+  } {
+    const byLabel = new Map<string, Token>();
+    const numbers = new Map<string, number>();
+    const definitions: Token[] = [];
+    const references = new Map<Token, { number: number; occurrence: number }>();
+    const counts: number[] = [];
+    const found: Token[] = [];
+
+    const visit = (tokens: Token[]) => {
+      for (const token of tokens) {
+        if (token.type === "footnote_definition") {
+          if (!byLabel.has(token.label!)) byLabel.set(token.label!, token);
+          continue;
+        }
+        if (token.type === "footnote_ref") found.push(token);
+        visit(token.children || []);
+        visit(token.items || []);
+      }
+    };
+    visit(tokens);
+
+    // Each newly referenced definition is searched too, appending the references it contains.
+    for (const reference of found) {
+      const definition = byLabel.get(reference.label!);
+      if (!definition) continue;
+
+      if (!numbers.has(reference.label!)) {
+        numbers.set(reference.label!, definitions.length + 1);
+        definitions.push(definition);
+        counts.push(0);
+        visit(definition.children || []);
+      }
+      const number = numbers.get(reference.label!)!;
+      references.set(reference, { number, occurrence: ++counts[number - 1] });
+    }
+
+    return { definitions, references, counts };
+  }
+
+  /**
+   * Returns the `id` of a footnote reference. The `fn:` and `fnref:` ids contain a colon,
+   * which slugs never do, so they cannot collide with header ids.
+   *
+   * @private
+   * @param {number} number - The footnote number.
+   * @param {number} occurrence - Which reference to the footnote this is, starting at 1.
+   * @returns {string} The id.
+   */
+  private footnoteRefId(number: number, occurrence: number): string {
+    return occurrence > 1 ? `fnref:${number}:${occurrence}` : `fnref:${number}`;
+  }
+
+  /**
+   * Renders the footnotes collected by {@link Markyfy.render} as an ordered list at the end of
+   * the document, each followed by links back to its references.
+   *
+   * @private
+   * @returns {string} The HTML string, or an empty string if no footnote is referenced.
+   */
+  private renderFootnotes(): string {
+    if (!this.footnotes?.definitions.length) return "";
+    const { definitions, counts } = this.footnotes;
+
+    const items = definitions.map((definition, index) => {
+      const number = index + 1;
+      const backrefs = Array.from(
+        { length: counts[index] },
+        (_, k) =>
+          `<a href="#${this.footnoteRefId(
+            number,
+            k + 1
+          )}" class="footnote-backref" aria-label="Back to reference ${number}${
+            k ? `-${k + 1}` : ""
+          }">↩${k ? `<sup>${k + 1}</sup>` : ""}</a>`
+      ).join(" ");
+      const content = this.tokensToHtml(definition.children || []);
+      // Like GitHub, place the back-references at the end of the last paragraph.
+      const html = content.endsWith("</p>")
+        ? `${content.slice(0, -4)} ${backrefs}</p>`
+        : `${content}\n${backrefs}`;
+      return `<li id="fn:${number}">${html}</li>`;
+    });
+
+    return `\n<section class="footnotes"><ol>\n${items.join(
+      "\n"
+    )}\n</ol></section>`;
+  }
+
+  /**
+   * Renders a table of contents inside `<nav class="toc">`.
+   *
+   * @private
+   * @param {TocEntry[]} entries - The top-level entries of the table of contents.
+   * @returns {string} The HTML string.
+   */
+  private renderTocNav(entries: TocEntry[]): string {
+    return `<nav class="toc">${this.renderTocEntries(entries)}</nav>`;
+  }
+
+  /**
+   * Renders table of contents entries as nested lists of links to the headers.
+   *
+   * @private
+   * @param {TocEntry[]} entries - The entries to render.
+   * @returns {string} The HTML string.
+   */
+  private renderTocEntries(entries: TocEntry[]): string {
+    if (!entries.length) return "";
+    const items = entries.map(
+      (entry) =>
+        `<li><a href="#${this.escapeHtml(entry.id)}">${this.escapeHtml(
+          entry.text
+        )}</a>${this.renderTocEntries(entry.children)}</li>`
+    );
+    return `<ul>${items.join("")}</ul>`;
+  }
+
+  /**
+   * Records an issue found while lexing or rendering, to be delivered once positions are final.
+   *
+   * @private
+   * @param {DiagnosticCode} code - The kind of issue.
+   * @param {DiagnosticSeverity} severity - Whether the issue is an error or a warning.
+   * @param {string} message - A description of the issue.
+   * @param {TokenPosition} [position] - The span of source the issue was found at.
+   */
+  private report(
+    code: DiagnosticCode,
+    severity: DiagnosticSeverity,
+    message: string,
+    position?: TokenPosition
+  ): void {
+    this.diagnostics.push({ code, severity, message, position });
+  }
+
+  /**
+   * Delivers the recorded diagnostics to the `onWarning` option; without it they are dropped
+   * rather than logged, since callers may lex and render the same document several times.
+   * In `strict` mode, then throws a {@link MarkyfyError} for the first error.
+   *
+   * @private
+   * @throws {MarkyfyError} In `strict` mode, if an error was recorded.
+   */
+  private flushDiagnostics(): void {
+    const diagnostics = this.diagnostics;
+    this.diagnostics = [];
+
+    const { onWarning, strict } = this.options;
+    if (onWarning) diagnostics.forEach((diagnostic) => onWarning(diagnostic));
+
+    const error = diagnostics.find(
+      (diagnostic) => diagnostic.severity === "error"
+    );
+    if (strict && error) throw new MarkyfyError(error);
+  }
+
+  /**
+   * Handles an error that aborted parsing. In `strict` mode it is thrown as a {@link MarkyfyError};
+   * otherwise it is reported as a `parse-error` diagnostic and the caller falls back to escaped text.
+   *
+   * @private
+   * @param {unknown} error - The error.
+   * @throws {MarkyfyError} In `strict` mode.
+   */
+  private fail(error: unknown): void {
+    const diagnostic: Diagnostic =
+      error instanceof MarkyfyError
+        ? error.diagnostic
+        : {
+            code: "parse-error",
+            severity: "error",
+            message: error instanceof Error ? error.message : String(error),
+          };
+    if (this.options.strict) {
+      throw error instanceof MarkyfyError
+        ? error
+        : new MarkyfyError(diagnostic);
+    }
+
+    this.diagnostics = [diagnostic];
+    this.flushDiagnostics();
   }
 
   /**
@@ -1,3 +1,39 @@
+import { Diagnostic } from "./diagnostics";
+import { FrontMatterParser } from "./frontMatter";
+import { Renderer } from "./renderer";
+import { SanitizerPolicy } from "./sanitizer";
+import { LanguageDefinition } from "./syntaxHighlighter";
+import { ThemeName } from "./theme";
+import { TocOptions } from "./toc";
+import { CodeBlockMeta, Token } from "./token";
+
+/**
+ * Represents how raw HTML in the Markdown source is rendered.
+ *
+ * @typedef {string} HtmlPolicy
+ * @property {"passthrough"} passthrough - Outputs raw HTML as is.
+ * @property {"escape"} escape - Escapes raw HTML so it renders as text.
+ * @property {"filter"} filter - Keeps only the tags and attributes allowed by the sanitizer policy.
+ */
+export type HtmlPolicy = "passthrough" | "escape" | "filter";
+
+/**
+ * Represents an external syntax highlighter, e.g. an adapter around Shiki or Prism.
+ * It returns the HTML of the highlighted code, either as the content of the `<code>` element
+ * or as a complete `<pre>` block, synchronously or as a Promise (see `Markyfy.parseAsync`).
+ *
+ * @callback HighlightFunction
+ * @param {string} code - The code to highlight.
+ * @param {string} lang - The language of the code block, or an empty string if it has none.
+ * @param {CodeBlockMeta} [meta] - The metadata from the code block's info string, if any.
+ * @returns {string | Promise<string>} The highlighted code as an HTML string.
+ */
+export type HighlightFunction = (
+  code: string,
+  lang: string,
+  meta?: CodeBlockMeta
+) => string | Promise<string>;
+
 /**
  * Represents configuration options for the Markdown parser.
  * These options control various parsing behaviors, such as enabling GitHub Flavored Markdown (GFM),
@@ -15,7 +51,8 @@ export interface ParserOptions {
   gfm?: boolean;
 
   /**
-   * Enables line breaks as `<br>` tags.
+   * Renders every line ending within a paragraph as a `<br>` tag, GitHub-comment style, instead of
+   * only those after two spaces or a backslash.
    *
    * @type {boolean}
    * @default false
@@ -23,7 +60,8 @@ export interface ParserOptions {
   breaks?: boolean;
 
   /**
-   * Enables automatic generation of IDs for headers.
+   * Enables automatic generation of IDs for headers. Documents with a `[[toc]]` placeholder
+   * always get them, as the table of contents links to the headers.
    *
    * @type {boolean}
    * @default true
@@ -32,9 +70,180 @@ export interface ParserOptions {
 
   /**
    * Enables sanitization of HTML to prevent XSS attacks.
+   * URLs are checked against the allowed schemes, and HTML returned by renderer hooks
+   * is filtered down to the allowed tags and attributes.
    *
    * @type {boolean}
    * @default true
    */
   sanitize?: boolean;
+
+  /**
+   * Overrides for the allowlist policy applied when `sanitize` is enabled.
+   *
+   * @type {Partial<SanitizerPolicy>}
+   * @default {}
+   */
+  sanitizer?: Partial<SanitizerPolicy>;
+
+  /**
+   * Controls how raw HTML blocks and inline HTML in the Markdown source are rendered.
+   * While `sanitize` is enabled, `"passthrough"` behaves like `"filter"`.
+   *
+   * @type {HtmlPolicy}
+   * @default "filter"
+   */
+  html?: HtmlPolicy;
+
+  /**
+   * Adds `loading="lazy"` to rendered images.
+   *
+   * @type {boolean}
+   * @default false
+   */
+  lazyImages?: boolean;
+
+  /**
+   * Rewrites the URL of a link or image before it is rendered, e.g. to prefix images with a CDN base.
+   * The result is still sanitized when `sanitize` is enabled.
+   *
+   * @type {(url: string, token: Token) => string}
+   * @default (url) => url
+   */
+  rewriteUrl?: (url: string, token: Token) => string;
+
+  /**
+   * Follows the CommonMark spec for block-level parsing: paragraphs span multiple lines,
+   * setext headers, indented code blocks and lazy blockquote continuation lines are recognized,
+   * and unterminated code fences run to the end of the document instead of failing.
+   *
+   * @type {boolean}
+   * @default false
+   */
+  commonmark?: boolean;
+
+  /**
+   * Grammars to register with the syntax highlighter in addition to the built-in JavaScript one.
+   * Built-in grammars are imported from `markyfy/languages` (all of them) or
+   * `markyfy/languages/<name>` (one at a time).
+   *
+   * @type {LanguageDefinition[]}
+   * @default []
+   */
+  languages?: LanguageDefinition[];
+
+  /**
+   * Detects the language of code blocks without an info string using
+   * `SyntaxHighlighter.highlightAuto`, and records it in the `language-*` class.
+   * Pass an array of language names to limit detection to those languages.
+   *
+   * @type {boolean | string[]}
+   * @default false
+   */
+  autoDetect?: boolean | string[];
+
+  /**
+   * Replaces the built-in `SyntaxHighlighter` with an external highlighter. Its output is
+   * trusted as is. Asynchronous highlighters require `Markyfy.parseAsync`.
+   *
+   * @type {HighlightFunction | null}
+   * @default null
+   */
+  highlight?: HighlightFunction | null;
+
+  /**
+   * Converts the plain text of a header into the slug used for its `id`. Repeated slugs
+   * are de-duplicated with a `-1`, `-2`, ... suffix. The default produces GitHub-compatible slugs.
+   *
+   * @type {(text: string) => string}
+   * @default slugify
+   */
+  slugify?: (text: string) => string;
+
+  /**
+   * Configures the table of contents returned by `Markyfy.getToc` and rendered for the
+   * `[[toc]]` placeholder.
+   *
+   * @type {TocOptions}
+   * @default {}
+   */
+  toc?: TocOptions;
+
+  /**
+   * Parses TeX math: `$...$` becomes a `math_inline` token and `$$...$$` blocks become
+   * `math_block` tokens; `$$...$$` inside a paragraph is a `math_inline` token marked `display`.
+   * Their contents are not parsed as Markdown. They render as `<span class="math">` and
+   * `<div class="math">` with the TeX escaped; use `renderer` hooks to typeset them instead.
+   * Typeset output is sanitized like any hook output, so while `sanitize` is enabled the
+   * `sanitizer` policy must allow the typesetter's tags and attributes, e.g. MathML's `<math>`
+   * and `<mi>` and, for HTML output, `style` on `<span>`.
+   *
+   * @type {boolean}
+   * @default false
+   */
+  math?: boolean;
+
+  /**
+   * Detects front matter at the very start of the document: lines fenced by `---` (YAML)
+   * or `+++` (TOML). It becomes a `front_matter` token, which renders nothing; use
+   * `Markyfy.parseWithMeta` to get the parsed data.
+   *
+   * @type {boolean}
+   * @default true
+   */
+  frontMatter?: boolean;
+
+  /**
+   * Parses the source of the front matter. The default supports a minimal subset of YAML and TOML;
+   * pass e.g. a full YAML parser for anything beyond it.
+   *
+   * @type {FrontMatterParser}
+   * @default parseFrontMatter
+   */
+  parseFrontMatter?: FrontMatterParser;
+
+  /**
+   * Called with every issue found while parsing, such as an unclosed code fence or a malformed
+   * header. Without it, diagnostics are dropped; nothing is logged.
+   *
+   * @type {((diagnostic: Diagnostic) => void) | null}
+   * @default null
+   */
+  onWarning?: ((diagnostic: Diagnostic) => void) | null;
+
+  /**
+   * Throws a `MarkyfyError` for the first error diagnostic instead of falling back to escaped text.
+   * Warnings are still only reported to `onWarning`.
+   *
+   * @type {boolean}
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Overrides the HTML output for individual token types.
+   * Token types without a hook are rendered with the built-in output.
+   *
+   * @type {Renderer}
+   * @default {}
+   */
+  renderer?: Renderer;
+
+  /**
+   * Prepends the CSS of the selected theme to the rendered HTML in a single `<style>` element.
+   * When disabled, the output contains class-only markup; use `getThemeCss()` to ship the CSS yourself.
+   * Earlier versions always added the CSS, so enable this to keep their highlighting colours.
+   *
+   * @type {boolean}
+   * @default false
+   */
+  injectStyles?: boolean;
+
+  /**
+   * The theme whose CSS is injected when `injectStyles` is enabled.
+   *
+   * @type {ThemeName}
+   * @default "one-dark"
+   */
+  theme?: ThemeName;
 }
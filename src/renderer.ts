@@ -0,0 +1,48 @@
+import { Token, TokenType } from "./token";
+
+/**
+ * Represents the helpers passed to a renderer hook alongside the token being rendered.
+ *
+ * @interface
+ */
+export interface RendererContext {
+  /**
+   * Renders child tokens into HTML, applying renderer hooks to them as well.
+   * Defaults to the current token's `children`, or its `items` for lists.
+   */
+  renderChildren(children?: Token[]): string;
+
+  /** Renders the current token with the built-in output, as if no hook were registered. */
+  renderDefault(): string;
+
+  /** Escapes HTML special characters in a text string. */
+  escapeHtml(text: string): string;
+}
+
+/**
+ * Represents a function that renders a single token into HTML.
+ *
+ * @typedef {Function} RendererHook
+ * @param {Token} token - The token to render.
+ * @param {RendererContext} context - Helpers for rendering children and falling back to the default output.
+ * @returns {string} The resulting HTML string.
+ */
+export type RendererHook = (token: Token, context: RendererContext) => string;
+
+/**
+ * Represents a set of renderer hooks, keyed by the token type they render.
+ * Besides the built-in token types, hooks may target token types produced by extensions.
+ *
+ * @example
+ * const markyfy = new Markyfy({
+ *   renderer: {
+ *     link: (token, { escapeHtml }) =>
+ *       `<a href="${escapeHtml(token.url || "")}" target="_blank" rel="noopener">${escapeHtml(token.text || "")}</a>`,
+ *   },
+ * });
+ */
+export type Renderer = {
+  [type in TokenType]?: RendererHook;
+} & {
+  [type: string]: RendererHook | undefined;
+};
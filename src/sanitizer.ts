@@ -0,0 +1,281 @@
+/**
+ * Represents the allowlist policy applied by the sanitizer.
+ *
+ * @interface
+ */
+export interface SanitizerPolicy {
+  /**
+   * URL schemes allowed in links, images and URL attributes (e.g., "https").
+   * Relative URLs are always allowed.
+   */
+  allowedSchemes: string[];
+
+  /** HTML tags allowed in raw HTML. Any other tag is escaped and rendered as text. */
+  allowedTags: string[];
+
+  /**
+   * Attributes allowed in raw HTML, keyed by tag name. Attributes listed under `"*"` are allowed
+   * on every tag, and entries ending in `*` (e.g., `"data-*"`) match by prefix.
+   */
+  allowedAttributes: Record<string, string[]>;
+}
+
+/** The default sanitizer policy. */
+export const defaultSanitizerPolicy: SanitizerPolicy = {
+  allowedSchemes: ["http", "https", "mailto", "tel"],
+  allowedTags: [
+    "a",
+    "abbr",
+    "b",
+    "blockquote",
+    "br",
+    "code",
+    "dd",
+    "del",
+    "details",
+    "div",
+    "dl",
+    "dt",
+    "em",
+    "figcaption",
+    "figure",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "hr",
+    "i",
+    "img",
+    "input",
+    "ins",
+    "kbd",
+    "li",
+    "mark",
+    "nav",
+    "ol",
+    "p",
+    "pre",
+    "q",
+    "s",
+    "samp",
+    "section",
+    "small",
+    "span",
+    "strong",
+    "sub",
+    "summary",
+    "sup",
+    "table",
+    "tbody",
+    "td",
+    "tfoot",
+    "th",
+    "thead",
+    "tr",
+    "u",
+    "ul",
+    "var",
+  ],
+  allowedAttributes: {
+    "*": ["class", "id", "title", "lang", "dir", "aria-*", "data-*"],
+    a: ["href", "name", "target", "rel"],
+    img: ["src", "alt", "width", "height", "loading"],
+    input: ["type", "checked", "disabled"],
+    ol: ["start", "reversed"],
+    td: ["align", "colspan", "rowspan"],
+    th: ["align", "colspan", "rowspan", "scope"],
+    details: ["open"],
+    q: ["cite"],
+    blockquote: ["cite"],
+  },
+};
+
+/** Attributes whose values are URLs and are checked against the allowed schemes. */
+const URL_ATTRIBUTES = ["href", "src", "cite", "action", "formaction"];
+
+/** Named character references decoded before attribute values are checked. */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  colon: ":",
+  tab: "\t",
+  newline: "\n",
+};
+
+/**
+ * Sanitizer is a class that makes rendered HTML safe to embed, based on an allowlist policy.
+ * It blocks URLs with disallowed schemes and filters raw HTML down to allowed tags and attributes.
+ *
+ * @class
+ */
+export class Sanitizer {
+  /** The policy applied by the sanitizer. */
+  private policy: SanitizerPolicy;
+
+  /**
+   * Creates an instance of Sanitizer.
+   *
+   * @param {Partial<SanitizerPolicy>} [policy={}] - Overrides for the default policy.
+   */
+  constructor(policy: Partial<SanitizerPolicy> = {}) {
+    this.policy = { ...defaultSanitizerPolicy, ...policy };
+  }
+
+  /**
+   * Checks a URL against the allowed schemes. Control characters and whitespace are ignored
+   * when detecting the scheme, and the check is case-insensitive, so obfuscated schemes
+   * such as `" JaVa\tScRiPt:"` are caught.
+   *
+   * @param {string} url - The URL to sanitize.
+   * @returns {string} The URL if it is relative or its scheme is allowed, otherwise an empty string.
+   */
+  sanitizeUrl(url: string): string {
+    const normalized = url.replace(/[\u0000- \u007f]+/g, "").toLowerCase();
+    const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+    if (!scheme) return url;
+    return this.policy.allowedSchemes.includes(scheme[1]) ? url : "";
+  }
+
+  /**
+   * Filters raw HTML down to the allowed tags and attributes.
+   * Disallowed tags are escaped so they render as text, disallowed attributes are dropped,
+   * URL attributes are checked against the allowed schemes, and comments are removed.
+   *
+   * @param {string} html - The HTML to sanitize.
+   * @param {string} [idPrefix=""] - Prepended to every `id`, so that untrusted markup cannot take over the ids of the page (e.g. `fn:1`) or clobber globals such as `window.config`.
+   * @returns {string} The sanitized HTML.
+   */
+  sanitizeHtml(html: string, idPrefix = ""): string {
+    const tagPattern =
+      /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+    let result = "";
+    let lastIndex = 0;
+    let match;
+
+    while ((match = tagPattern.exec(html)) !== null) {
+      result += this.escapeText(html.slice(lastIndex, match.index));
+      lastIndex = tagPattern.lastIndex;
+
+      if (match[0].startsWith("<!--")) continue;
+
+      const [source, closing, name, attributes, selfClosing] = match;
+      const tag = name.toLowerCase();
+      if (!this.policy.allowedTags.includes(tag)) {
+        result += this.escape(source);
+        continue;
+      }
+
+      result += closing
+        ? `</${tag}>`
+        : `<${tag}${this.sanitizeAttributes(tag, attributes, idPrefix)}${
+            selfClosing ? " /" : ""
+          }>`;
+    }
+
+    return result + this.escapeText(html.slice(lastIndex));
+  }
+
+  /**
+   * Filters the attributes of an allowed tag and re-serializes them with escaped values.
+   *
+   * @private
+   * @param {string} tag - The lowercase tag name.
+   * @param {string} source - The attribute source text of the tag.
+   * @param {string} idPrefix - Prepended to the `id` attribute.
+   * @returns {string} The serialized allowed attributes, each preceded by a space.
+   */
+  private sanitizeAttributes(
+    tag: string,
+    source: string,
+    idPrefix: string
+  ): string {
+    const allowed = [
+      ...(this.policy.allowedAttributes["*"] || []),
+      ...(this.policy.allowedAttributes[tag] || []),
+    ];
+    const attributePattern =
+      /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+    let result = "";
+    let match;
+
+    while ((match = attributePattern.exec(source)) !== null) {
+      const name = match[1].toLowerCase();
+      const isAllowed = allowed.some((entry) =>
+        entry.endsWith("*")
+          ? name.startsWith(entry.slice(0, -1))
+          : name === entry
+      );
+      if (!isAllowed) continue;
+
+      const raw = match[2] ?? match[3] ?? match[4];
+      if (raw === undefined) {
+        result += ` ${name}`;
+        continue;
+      }
+
+      let value = this.decodeEntities(raw);
+      if (URL_ATTRIBUTES.includes(name)) {
+        value = this.sanitizeUrl(value);
+      } else if (name === "id") {
+        value = idPrefix + value;
+      }
+      result += ` ${name}="${this.escape(value)}"`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Decodes numeric and common named character references, as browsers do in attribute values.
+   *
+   * @private
+   * @param {string} text - The text to decode.
+   * @returns {string} The decoded text.
+   */
+  private decodeEntities(text: string): string {
+    return text.replace(
+      /&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([a-zA-Z]+));?/g,
+      (entity, decimal, hex, named) => {
+        if (decimal || hex) {
+          const code = parseInt(decimal || hex, decimal ? 10 : 16);
+          return code > 0 && code <= 0x10ffff
+            ? String.fromCodePoint(code)
+            : "\ufffd";
+        }
+        return NAMED_ENTITIES[named.toLowerCase()] ?? entity;
+      }
+    );
+  }
+
+  /**
+   * Escapes the `<` and `>` characters of text between tags, leaving character references intact.
+   *
+   * @private
+   * @param {string} text - The text to escape.
+   * @returns {string} The escaped text.
+   */
+  private escapeText(text: string): string {
+    return text.replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  }
+
+  /**
+   * Escapes HTML special characters in a text string.
+   *
+   * @private
+   * @param {string} text - The text to escape.
+   * @returns {string} The escaped text.
+   */
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#039;");
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Converts heading text into a URL-friendly slug the way GitHub does: the text is lowercased,
+ * everything except letters, marks, numbers, connector punctuation, spaces and hyphens is
+ * removed (so non-Latin scripts are kept and emoji are dropped), and each space becomes a hyphen.
+ *
+ * @param {string} text - The heading text to slugify.
+ * @returns {string} The slug.
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, "")
+    .replace(/ /g, "-");
+}
@@ -0,0 +1,320 @@
+import { Extension } from "./extension";
+import { Markyfy } from "./markyfy";
+import { ParserOptions } from "./parser";
+import { getThemeCss } from "./theme";
+
+/**
+ * Matches the opening line of a fenced code block and captures the fence.
+ */
+const FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+/**
+ * Matches the opening line of a display math block and captures the rest of the line.
+ */
+const MATH_BLOCK = /^ {0,3}\$\$(.*)$/;
+
+/**
+ * Matches the opening line of a raw HTML block that runs to a closing tag or `-->` instead of
+ * to a blank line (CommonMark HTML block types 1 and 2), and captures the tag name.
+ */
+const HTML_BLOCK = /^ {0,3}<(?:(script|pre|style|textarea)(?:\s|>|$)|!--)/i;
+
+/**
+ * Matches the start of a line that may continue the block before a blank line,
+ * such as an indented line, a blockquote, a list item or a table row.
+ */
+const CONTINUATION = /^(?:[ \t]|>|[-*+](?:[ \t]|$)|\d+[.)](?:[ \t]|$)|\|)/;
+
+/**
+ * MarkyfyStream renders Markdown that arrives in chunks, such as the output of a chat model.
+ * After every chunk it returns the HTML of the whole document received so far: blocks that are
+ * complete are rendered once and reused, and the unfinished tail is re-rendered with its
+ * unterminated code fences, code spans, emphasis and links treated as provisional.
+ *
+ * The finished blocks are rendered independently of each other, so link reference definitions,
+ * footnotes and header id de-duplication only apply within a block until {@link MarkyfyStream.end}
+ * renders the complete document exactly as {@link Markyfy.parse} would.
+ *
+ * @class
+ */
+export class MarkyfyStream {
+  /** The parser used to render the document. */
+  private markyfy: Markyfy;
+
+  /** The parser options, for injecting the theme's styles once in front of the document. */
+  private options: ParserOptions;
+
+  /** The Markdown received so far. */
+  private source = "";
+
+  /** The length of the leading part of `source` whose blocks are complete. */
+  private committed = 0;
+
+  /** The HTML of the complete blocks, one entry per committed part. */
+  private committedHtml: string[] = [];
+
+  /**
+   * Creates an instance of MarkyfyStream.
+   *
+   * @param {ParserOptions} [options={}] - The parser options, as for {@link Markyfy}.
+   */
+  constructor(options: ParserOptions = {}) {
+    this.options = options;
+    this.markyfy = new Markyfy({ ...options, injectStyles: false });
+  }
+
+  /**
+   * Registers an extension with the underlying parser; see {@link Markyfy.use}.
+   *
+   * @param {Extension} extension - The extension to register.
+   * @returns {this} The stream, for chaining.
+   */
+  use(extension: Extension): this {
+    this.markyfy.use(extension);
+    return this;
+  }
+
+  /**
+   * Appends a chunk of Markdown and renders the document received so far.
+   *
+   * @param {string} chunk - The next chunk of Markdown.
+   * @returns {string} The provisional HTML of the whole document.
+   */
+  push(chunk: string): string {
+    this.source += chunk;
+    this.commit();
+
+    const tail = completeProvisional(
+      this.source.slice(this.committed),
+      !!this.options.math
+    );
+    return this.withStyles([
+      ...this.committedHtml,
+      ...(tail.trim() ? [this.markyfy.parse(tail)] : []),
+    ]);
+  }
+
+  /**
+   * Ends the stream and renders the complete document.
+   *
+   * @returns {string} The final HTML, the same as {@link Markyfy.parse} returns for the whole document.
+   */
+  end(): string {
+    return this.withStyles([this.markyfy.parse(this.source)]);
+  }
+
+  /**
+   * Renders and caches the blocks that can no longer change: everything before the last blank
+   * line outside a code fence, math block or HTML block such as `<pre>` that is followed by
+   * a complete line starting a new block.
+   *
+   * @private
+   */
+  private commit(): void {
+    const lines = this.source.slice(this.committed).split("\n");
+    let open: OpenBlock | undefined;
+    let boundary = -1;
+
+    // The last line may still be growing, so it is never used to decide a boundary.
+    for (let i = 0; i < lines.length - 1; i++) {
+      const line = lines[i];
+      if (open) {
+        if (open.closes(line)) open = undefined;
+        continue;
+      }
+
+      open = openBlock(line, !!this.options.math);
+      if (open) continue;
+
+      const next = lines[i + 1];
+      if (
+        i > 0 &&
+        line.trim() === "" &&
+        i + 1 < lines.length - 1 &&
+        next.trim() !== "" &&
+        !CONTINUATION.test(next)
+      ) {
+        boundary = i;
+      }
+    }
+
+    if (boundary < 0) return;
+
+    const block = lines.slice(0, boundary).join("\n");
+    if (block.trim()) this.committedHtml.push(this.markyfy.parse(block));
+    this.committed += lines
+      .slice(0, boundary + 1)
+      .reduce((length, line) => length + line.length + 1, 0);
+  }
+
+  /**
+   * Joins rendered parts, skipping empty ones as {@link Markyfy.render} does, and prepends the
+   * theme's styles if `injectStyles` is set.
+   *
+   * @private
+   * @param {string[]} parts - The rendered parts of the document.
+   * @returns {string} The HTML of the document.
+   */
+  private withStyles(parts: string[]): string {
+    const html = parts.filter((part) => part !== "").join("\n");
+    if (!this.options.injectStyles) return html;
+    return `<style>\n${getThemeCss(this.options.theme)}\n</style>\n${html}`;
+  }
+}
+
+/**
+ * Represents a block that runs past blank lines up to a closing line.
+ */
+interface OpenBlock {
+  /** Checks whether a line closes the block. */
+  closes: (line: string) => boolean;
+
+  /** The line that closes the block in a provisional rendering, if the block needs one to render. */
+  closer?: string;
+}
+
+/**
+ * Matches a line opening a block that runs past blank lines up to a closing line, with the
+ * lexer's start and end conditions: a code fence, a `$$` math block or a raw HTML block such
+ * as `<pre>` or `<!--`. A block that is closed on its opening line is not open.
+ *
+ * @param {string} line - The line to match.
+ * @param {boolean} math - Whether the `math` option is enabled.
+ * @returns {OpenBlock | undefined} The block the line opens, or undefined if it opens none.
+ */
+function openBlock(line: string, math: boolean): OpenBlock | undefined {
+  const fence = line.match(FENCE);
+  if (fence && !(fence[1][0] === "`" && fence[2].includes("`"))) {
+    return {
+      closes: (next) => isClosingFence(next, fence[1]),
+      closer: fence[1],
+    };
+  }
+
+  const mathBlock = math ? line.match(MATH_BLOCK) : null;
+  if (mathBlock && !mathBlock[1].trimEnd().endsWith("$$")) {
+    return { closes: (next) => next.trimEnd().endsWith("$$"), closer: "$$" };
+  }
+
+  // An HTML block renders as raw HTML up to the end of the document until it is closed.
+  const html = line.match(HTML_BLOCK);
+  const end = html && (html[1] ? /<\/(script|pre|style|textarea)>/i : /-->/);
+  if (end && !end.test(line)) return { closes: (next) => end.test(next) };
+  return undefined;
+}
+
+/**
+ * Checks whether a line closes a code fence: the same character, at least as long, indented
+ * by up to three spaces and followed only by whitespace.
+ *
+ * @param {string} line - The line to check.
+ * @param {string} fence - The opening fence.
+ * @returns {boolean} True if the line closes the fence, otherwise false.
+ */
+function isClosingFence(line: string, fence: string): boolean {
+  const match = line.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+  return !!match && match[1][0] === fence[0] && match[1].length >= fence.length;
+}
+
+/**
+ * Completes the constructs that are still open at the end of a partial document, so that it
+ * renders the way it will once they are closed: an unterminated code fence or math block is
+ * closed, an unterminated HTML block is left to run to the end, and in the last paragraph an
+ * unterminated code span or emphasis is closed, and an incomplete link is reduced to its text
+ * (or dropped, for an image).
+ *
+ * @param {string} markdown - The partial Markdown.
+ * @param {boolean} math - Whether the `math` option is enabled.
+ * @returns {string} The Markdown with the open constructs completed.
+ */
+function completeProvisional(markdown: string, math: boolean): string {
+  const lines = markdown.split("\n");
+  let block: OpenBlock | undefined;
+  let closed = false;
+  lines.forEach((line, index) => {
+    if (block) {
+      if (block.closes(line)) {
+        block = undefined;
+        closed = index === lines.length - 1;
+      }
+      return;
+    }
+    block = openBlock(line, math);
+  });
+  if (block?.closer) {
+    return `${markdown.replace(/\n$/, "")}\n${block.closer}`;
+  }
+  if (block) return markdown;
+
+  // Outside a fence, a last line of only backticks or tildes may be a code fence still being received.
+  if (!closed) markdown = markdown.replace(/(^|\n) {0,3}(?:`+|~+)$/, "$1");
+
+  const paragraphStart = markdown.search(
+    /\n[ \t]*\n(?=[^\n]*\S[\s\S]*$)(?![\s\S]*\n[ \t]*\n)/
+  );
+  const head = paragraphStart < 0 ? "" : markdown.slice(0, paragraphStart);
+  const paragraph =
+    paragraphStart < 0 ? markdown : markdown.slice(paragraphStart);
+  return head + completeInline(paragraph);
+}
+
+/**
+ * Completes the inline constructs that are still open at the end of a paragraph;
+ * see {@link completeProvisional}.
+ *
+ * @param {string} text - The paragraph.
+ * @returns {string} The paragraph with the open constructs completed.
+ */
+function completeInline(text: string): string {
+  text = text
+    .replace(/!\[[^\]]*(?:\]\([^)]*)?$/, "")
+    .replace(/\[\^[^\]\s]*$/, "")
+    .replace(/\[([^\]]*)\]\([^)]*$/, "$1")
+    .replace(/\[([^\]]*)$/, "$1");
+
+  const openers: { marker: string; index: number }[] = [];
+  let code: string | undefined;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === "\\") {
+      i += 2;
+      continue;
+    }
+
+    let end = i;
+    while (text[end] === char) end++;
+    const run = text.slice(i, end);
+
+    if (char === "`") {
+      if (!code) code = run;
+      else if (run === code) code = undefined;
+    } else if (!code && (char === "*" || char === "_" || char === "~")) {
+      const before = text[i - 1] || " ";
+      const after = text[end] || " ";
+      const intraword = char === "_" && /\w/.test(before) && /\w/.test(after);
+      const top = openers[openers.length - 1];
+
+      if (!intraword && top && top.marker === run && /\S/.test(before)) {
+        openers.pop();
+      } else if (!intraword && /\S/.test(after)) {
+        openers.push({ marker: run, index: i });
+      }
+    }
+    i = end;
+  }
+
+  if (code) return `${text}${code}`;
+
+  let completed = text.trimEnd();
+  for (const opener of openers.reverse()) {
+    // An opener with nothing after it yet would render as literal text, so it is dropped.
+    if (!completed.slice(opener.index + opener.marker.length).trim()) {
+      completed = completed.slice(0, opener.index).trimEnd();
+    } else {
+      completed += opener.marker;
+    }
+  }
+  return completed;
+}
@@ -1,14 +1,22 @@
+import { javascript } from "./languages/javascript";
+
 /**
  * Represents a syntax highlighting rule, consisting of a regular expression pattern
  * and a token type to apply when the pattern matches.
  *
  * @interface
  */
-interface SyntaxRule {
+export interface SyntaxRule {
   /** The regular expression pattern to match. */
   pattern: RegExp;
   /** The token type to apply (e.g., "string", "comment", "keyword"). */
   token: string;
+  /**
+   * How much a match counts towards the language's relevance score in `highlightAuto`.
+   * Defaults to 0 for token types most languages share (text, punctuation, operators,
+   * strings and numbers) and to 1 for all others.
+   */
+  relevance?: number;
 }
 
 /**
@@ -17,13 +25,65 @@ interface SyntaxRule {
  *
  * @interface
  */
-interface LanguageDefinition {
+export interface LanguageDefinition {
   /** The name of the language (e.g., "javascript"). */
   name: string;
-  /** An array of syntax rules for highlighting the language. */
+  /** Other names the language is registered under (e.g., "js"). */
+  aliases?: string[];
+  /** An array of syntax rules for highlighting the language, tried in order at each position. */
   rules: SyntaxRule[];
 }
 
+/**
+ * Represents a piece of highlighted code: a run of characters matched by a rule,
+ * or a run of plain `text` that no rule matched.
+ *
+ * @interface
+ */
+export interface HighlightToken {
+  /** The token type (e.g., "string", "keyword"), or "text" for unmatched code. */
+  type: string;
+  /** The source code the token covers. */
+  value: string;
+  /**
+   * The tokens of a second language within this one, if any, e.g. the highlighted content
+   * of an inserted line in a `diff-<lang>` block. Their values concatenate to `value`.
+   */
+  children?: HighlightToken[];
+}
+
+/**
+ * Represents the result of highlighting code in an automatically detected language.
+ *
+ * @interface
+ */
+export interface AutoHighlightResult {
+  /** The name of the detected language, or undefined if no grammar matched the code. */
+  language?: string;
+  /** How well the detected language matched: the summed relevance of the rules that matched. */
+  relevance: number;
+  /** The highlighted code as an HTML string. */
+  value: string;
+}
+
+/**
+ * Token types that most grammars match alike, so by default they say nothing about the
+ * language and do not count towards the relevance score of `highlightAuto`.
+ */
+const INSIGNIFICANT_TOKENS = [
+  "text",
+  "punctuation",
+  "operator",
+  "string",
+  "number",
+];
+
+/**
+ * The diff token types of lines whose content is highlighted in the underlying language
+ * of a `diff-<lang>` block.
+ */
+const DIFF_CODE_LINES = ["inserted", "deleted", "context"];
+
 /**
  * SyntaxHighlighter is a class that provides syntax highlighting for code snippets
  * based on predefined language definitions. It supports registering custom languages
@@ -35,73 +95,181 @@ export class SyntaxHighlighter {
   /** A map of registered languages, keyed by language name. */
   private languages: Map<string, LanguageDefinition> = new Map();
 
+  /** A map of language aliases to the names of the languages they refer to. */
+  private aliases: Map<string, string> = new Map();
+
+  /** The sticky versions of each language's rules, compiled on first use. */
+  private compiled: WeakMap<LanguageDefinition, SyntaxRule[]> = new WeakMap();
+
   /**
    * Creates an instance of SyntaxHighlighter.
-   * Pre-registers the "javascript" and "js" languages with default syntax rules.
-   */
-  constructor() {
-    this.registerLanguage("javascript", {
-      name: "javascript",
-      rules: [
-        {
-          pattern: /'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`(?:[^`\\]|\\.)*`/g,
-          token: "string",
-        },
-        { pattern: /\/\/.*$|\/\*[\s\S]*?\*\//gm, token: "comment" },
-        {
-          pattern:
-            /\b(function|class|extends|new|this|super|return|if|else|for|while|do|switch|case|break|continue|try|catch|throw|async|await|import|export|default|const|let|var)\b/g,
-          token: "keyword",
-        },
-        { pattern: /\b\d+\.?\d*\b/g, token: "number" },
-
-        {
-          pattern: /[{}[\]();,.]/g,
-          token: "punctuation",
-        },
-        {
-          pattern: /\b[a-zA-Z_$][0-9a-zA-Z_$]*(?=\()/g,
-          token: "function",
-        },
-        { pattern: /\b(true|false)\b/g, token: "boolean" },
-      ],
-    });
-
-    this.registerLanguage("js", {
-      name: "javascript",
-      rules: [
-        {
-          pattern: /'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`(?:[^`\\]|\\.)*`/g,
-          token: "string",
-        },
-        { pattern: /\/\/.*$|\/\*[\s\S]*?\*\//gm, token: "comment" },
-        {
-          pattern:
-            /\b(function|class|extends|new|this|super|return|if|else|for|while|do|switch|case|break|continue|try|catch|throw|async|await|import|export|default|const|let|var)\b/g,
-          token: "keyword",
-        },
-        { pattern: /\b\d+\.?\d*\b/g, token: "number" },
-        {
-          pattern: /[{}[\]();,.]/g,
-          token: "punctuation",
-        },
-        {
-          pattern: /\b[a-zA-Z_$][0-9a-zA-Z_$]*(?=\()/g,
-          token: "function",
-        },
-        { pattern: /\b(true|false)\b/g, token: "boolean" },
-      ],
-    });
+   * Pre-registers the JavaScript grammar; other grammars are loaded separately
+   * from `markyfy/languages` so they only end up in bundles that use them.
+   *
+   * @param {LanguageDefinition[]} [languages=[]] - Additional language definitions to register.
+   */
+  constructor(languages: LanguageDefinition[] = []) {
+    this.registerLanguage(javascript);
+    languages.forEach((language) => this.registerLanguage(language));
+  }
+
+  /**
+   * Registers a new language definition for syntax highlighting, along with its aliases.
+   * A definition registered under an explicit name uses that name instead of `definition.name`.
+   *
+   * @param {string | LanguageDefinition} nameOrDefinition - The name of the language (e.g., "javascript"), or the language definition itself.
+   * @param {LanguageDefinition} [definition] - The language definition containing syntax rules, when a name is given.
+   */
+  registerLanguage(definition: LanguageDefinition): void;
+  registerLanguage(name: string, definition: LanguageDefinition): void;
+  registerLanguage(
+    nameOrDefinition: string | LanguageDefinition,
+    definition?: LanguageDefinition
+  ): void {
+    const language =
+      typeof nameOrDefinition === "string" ? definition! : nameOrDefinition;
+    const name =
+      typeof nameOrDefinition === "string" ? nameOrDefinition : language.name;
+
+    this.languages.set(name.toLowerCase(), language);
+    (language.aliases || []).forEach((alias) =>
+      this.registerAlias(alias, name)
+    );
+  }
+
+  /**
+   * Registers an alternative name for a language, e.g. `ts` for `typescript`.
+   *
+   * @param {string} alias - The alternative name.
+   * @param {string} name - The name of the language the alias refers to.
+   */
+  registerAlias(alias: string, name: string): void {
+    this.aliases.set(alias.toLowerCase(), name.toLowerCase());
+  }
+
+  /**
+   * Returns the language registered under a name or alias.
+   *
+   * @param {string} lang - The language name or alias (case-insensitive).
+   * @returns {LanguageDefinition | undefined} The language definition, or undefined if no such language is registered.
+   */
+  getLanguage(lang: string): LanguageDefinition | undefined {
+    const name = lang.toLowerCase();
+    return (
+      this.languages.get(name) ||
+      this.languages.get(this.aliases.get(name) || "")
+    );
+  }
+
+  /**
+   * Splits code into highlighting tokens in a single left-to-right pass. At each position,
+   * the language's rules are tried in order and the first one matching there wins; characters
+   * no rule matches are collected into `text` tokens. The tokens never overlap and their
+   * values concatenate back to the original code.
+   *
+   * A language of the form `diff-<lang>` (e.g., `diff-ts`) tokenizes the code with the `diff`
+   * grammar, and the inserted, deleted and context lines get `children`: a `prefix` token for
+   * their leading `+`, `-` or space, followed by their content highlighted in `<lang>`.
+   *
+   * @param {string} code - The code to tokenize.
+   * @param {string} lang - The language to use for tokenizing (e.g., "javascript").
+   * @returns {HighlightToken[]} The tokens, or a single `text` token if the language is not registered.
+   */
+  tokenize(code: string, lang: string): HighlightToken[] {
+    const diff = lang.match(/^diff-(.+)$/i);
+    if (diff && this.getLanguage("diff") && !this.getLanguage(lang)) {
+      return this.tokenizeDiff(code, diff[1]);
+    }
+
+    const language = this.getLanguage(lang);
+    if (!language) {
+      return code ? [{ type: "text", value: code }] : [];
+    }
+    return this.scan(code, language).tokens;
+  }
+
+  /**
+   * Tokenizes a `diff-<lang>` block; see `tokenize`. The old side (context and deleted lines)
+   * and the new side (context and inserted lines) are each highlighted in one go, so that
+   * tokens such as block comments can span several lines.
+   *
+   * @private
+   * @param {string} code - The code to tokenize.
+   * @param {string} lang - The language of the diffed code.
+   * @returns {HighlightToken[]} The tokens.
+   */
+  private tokenizeDiff(code: string, lang: string): HighlightToken[] {
+    const tokens = this.tokenize(code, "diff");
+    const lines = tokens.filter(
+      (token) =>
+        DIFF_CODE_LINES.includes(token.type) && !token.value.includes("\n")
+    );
+
+    for (const side of ["deleted", "inserted"]) {
+      const sideLines = lines.filter(
+        (line) => line.type === side || line.type === "context"
+      );
+      const content = this.splitLines(
+        this.tokenize(
+          sideLines.map((line) => line.value.slice(1)).join("\n"),
+          lang
+        )
+      );
+      sideLines.forEach((line, index) => {
+        line.children = [
+          { type: "prefix", value: line.value[0] },
+          ...content[index],
+        ];
+      });
+    }
+
+    return tokens;
   }
 
   /**
-   * Registers a new language definition for syntax highlighting.
+   * Scans code with the rules of a language; see `tokenize`.
    *
-   * @param {string} name - The name of the language (e.g., "javascript").
-   * @param {LanguageDefinition} definition - The language definition containing syntax rules.
+   * @private
+   * @param {string} code - The code to tokenize.
+   * @param {LanguageDefinition} language - The language definition.
+   * @returns {{ tokens: HighlightToken[]; relevance: number }} The tokens and the sum of the relevance of the rules that matched.
    */
-  registerLanguage(name: string, definition: LanguageDefinition) {
-    this.languages.set(name, definition);
+  private scan(
+    code: string,
+    language: LanguageDefinition
+  ): { tokens: HighlightToken[]; relevance: number } {
+    const rules = this.compile(language);
+    const tokens: HighlightToken[] = [];
+    let relevance = 0;
+    let text = "";
+    let pos = 0;
+
+    while (pos < code.length) {
+      let matched: HighlightToken | undefined;
+      for (const rule of rules) {
+        rule.pattern.lastIndex = pos;
+        const match = rule.pattern.exec(code);
+        if (match && match[0]) {
+          matched = { type: rule.token, value: match[0] };
+          relevance += rule.relevance!;
+          break;
+        }
+      }
+
+      if (!matched) {
+        text += code[pos++];
+        continue;
+      }
+      if (text) {
+        tokens.push({ type: "text", value: text });
+        text = "";
+      }
+      tokens.push(matched);
+      pos += matched.value.length;
+    }
+
+    if (text) tokens.push({ type: "text", value: text });
+    return { tokens, relevance };
   }
 
   /**
@@ -112,67 +280,154 @@ export class SyntaxHighlighter {
    * @returns {string} The highlighted code as an HTML string.
    */
   highlight(code: string, lang: string): string {
-    const language = this.languages.get(lang);
-    if (!language) return code;
+    return this.render(this.tokenize(code, lang));
+  }
+
+  /**
+   * Applies syntax highlighting to the provided code and splits the result into lines.
+   * Tokens spanning several lines, such as block comments, are closed at the end of each
+   * line and reopened on the next, so every line is well-formed HTML on its own.
+   *
+   * @param {string} code - The code to highlight.
+   * @param {string} lang - The language to use for highlighting (e.g., "javascript").
+   * @returns {string[]} The highlighted lines as HTML strings.
+   */
+  highlightLines(code: string, lang: string): string[] {
+    return this.splitLines(this.tokenize(code, lang)).map((line) =>
+      this.render(line)
+    );
+  }
 
-    let highlighted = this.escapeHtmlExceptStrings(code);
+  /**
+   * Splits tokens into lines, cutting tokens (and their children) that span line breaks.
+   *
+   * @private
+   * @param {HighlightToken[]} tokens - The tokens to split.
+   * @returns {HighlightToken[][]} The tokens of each line.
+   */
+  private splitLines(tokens: HighlightToken[]): HighlightToken[][] {
+    const lines: HighlightToken[][] = [[]];
 
-    for (const rule of language.rules) {
-      highlighted = highlighted.replace(
-        new RegExp(
-          `(?!<span[^>]*>)(${rule.pattern.source})(?![^<]*<\/span>)`,
-          rule.pattern.flags
-        ),
-        (match) => `<span class="token ${rule.token}">${match}</span>`
-      );
+    for (const token of tokens) {
+      const children = token.children && this.splitLines(token.children);
+      token.value.split("\n").forEach((value, index) => {
+        if (index > 0) lines.push([]);
+        if (!value) return;
+        lines[lines.length - 1].push(
+          children
+            ? { type: token.type, value, children: children[index] }
+            : { type: token.type, value }
+        );
+      });
     }
 
-    return highlighted;
+    return lines;
   }
 
   /**
-   * Escapes HTML special characters in the provided text, except for those inside strings.
+   * Renders highlighting tokens as HTML, wrapping every token except plain text in a
+   * `<span class="token ...">` around its escaped value or its rendered children.
    *
    * @private
-   * @param {string} text - The text to escape.
-   * @returns {string} The escaped text.
+   * @param {HighlightToken[]} tokens - The tokens to render.
+   * @returns {string} The HTML string.
+   */
+  private render(tokens: HighlightToken[]): string {
+    return tokens
+      .map((token) => {
+        const content = token.children
+          ? this.render(token.children)
+          : this.escapeHtml(token.value);
+        return token.type === "text"
+          ? content
+          : `<span class="token ${token.type}">${content}</span>`;
+      })
+      .join("");
+  }
+
+  /**
+   * Highlights code in the language that matches it best. Every candidate grammar tokenizes
+   * the code, and the one whose matching rules add up to the highest relevance wins; ties go
+   * to the earlier candidate. Code no grammar finds relevant tokens in is left unhighlighted.
+   *
+   * @param {string} code - The code to highlight.
+   * @param {string[]} [candidates] - The names or aliases of the languages to consider. Defaults to every registered language.
+   * @returns {AutoHighlightResult} The detected language, its relevance score and the highlighted code.
    */
-  private escapeHtmlExceptStrings(text: string): string {
-    return text.replace(/[&<>"']/g, (match) => {
-      if (match === "'" && this.isInsideString(text, match)) {
-        return match;
+  highlightAuto(code: string, candidates?: string[]): AutoHighlightResult {
+    const languages = candidates
+      ? candidates
+          .map((lang) => this.getLanguage(lang))
+          .filter((language): language is LanguageDefinition => !!language)
+      : [...this.languages.values()];
+
+    let best: AutoHighlightResult = {
+      relevance: 0,
+      value: this.highlight(code, ""),
+    };
+    const seen = new Set<LanguageDefinition>();
+
+    for (const language of languages) {
+      if (seen.has(language)) continue;
+      seen.add(language);
+
+      const { tokens, relevance } = this.scan(code, language);
+      if (relevance > best.relevance) {
+        best = {
+          language: language.name,
+          relevance,
+          value: this.render(tokens),
+        };
       }
-      return (
-        {
-          "&": "&amp;",
-          "<": "&lt;",
-          ">": "&gt;",
-          '"': "&quot;",
-          "'": "&#039;",
-        }[match] || match
-      );
-    });
+    }
+
+    return best;
   }
 
   /**
-   * Checks if a character is inside a string (single-quoted, double-quoted, or backtick-quoted).
+   * Returns the rules of a language with their patterns made sticky, so they only match
+   * at the scanner's current position, and their default relevance filled in. Compiled rules
+   * are cached per language definition.
    *
    * @private
-   * @param {string} text - The text to check.
-   * @param {string} char - The character to check (e.g., "'").
-   * @returns {boolean} True if the character is inside a string, otherwise false.
-   */
-  private isInsideString(text: string, char: string): boolean {
-    const regex = /('|"|`)(?:[^\\]|\\.)*?\1/g;
-    let match;
-    while ((match = regex.exec(text)) !== null) {
-      if (
-        match.index <= text.indexOf(char) &&
-        regex.lastIndex > text.indexOf(char)
-      ) {
-        return true;
-      }
+   * @param {LanguageDefinition} language - The language definition.
+   * @returns {SyntaxRule[]} The compiled rules.
+   */
+  private compile(language: LanguageDefinition): SyntaxRule[] {
+    let rules = this.compiled.get(language);
+    if (!rules) {
+      rules = language.rules.map((rule) => ({
+        token: rule.token,
+        relevance:
+          rule.relevance ?? (INSIGNIFICANT_TOKENS.includes(rule.token) ? 0 : 1),
+        pattern: new RegExp(
+          rule.pattern.source,
+          rule.pattern.flags.replace(/[gy]/g, "") + "y"
+        ),
+      }));
+      this.compiled.set(language, rules);
     }
-    return false;
+    return rules;
+  }
+
+  /**
+   * Escapes HTML special characters in the provided text.
+   *
+   * @private
+   * @param {string} text - The text to escape.
+   * @returns {string} The escaped text.
+   */
+  private escapeHtml(text: string): string {
+    return text.replace(
+      /[&<>"']/g,
+      (match) =>
+        ({
+          "&": "&amp;",
+          "<": "&lt;",
+          ">": "&gt;",
+          '"': "&quot;",
+          "'": "&#039;",
+        }[match] || match)
+    );
   }
 }
@@ -0,0 +1,146 @@
+/**
+ * Represents the name of a built-in syntax highlighting theme.
+ *
+ * @typedef {string} ThemeName
+ * @property {"one-dark"} one-dark - A dark theme based on Atom's One Dark.
+ * @property {"one-light"} one-light - A light theme based on Atom's One Light.
+ */
+export type ThemeName = "one-dark" | "one-light";
+
+/**
+ * Represents the colors of a syntax highlighting theme.
+ *
+ * @interface
+ */
+interface Theme {
+  /** The background color of code blocks. */
+  background: string;
+  /** The default text color of code blocks. */
+  foreground: string;
+  /** The background color of emphasized lines. */
+  highlight: string;
+  /** The color of line numbers. */
+  gutter: string;
+  /** The background colors of inserted and deleted lines in `diff-<lang>` blocks. */
+  diff: { inserted: string; deleted: string };
+  /** The colors of the `.token.*` classes emitted by `SyntaxHighlighter`, keyed by token type. */
+  tokens: Record<string, string>;
+}
+
+/** The built-in themes, keyed by theme name. */
+const themes: Record<ThemeName, Theme> = {
+  "one-dark": {
+    background: "#282c34",
+    foreground: "#abb2bf",
+    highlight: "#3a3f4b",
+    gutter: "#636d83",
+    diff: { inserted: "#98c37926", deleted: "#e06c7526" },
+    tokens: {
+      keyword: "#c678dd",
+      function: "#61afef",
+      string: "#ce9178",
+      comment: "#7c858d",
+      number: "#b5cea8",
+      boolean: "#569cd6",
+      type: "#4ec9b0",
+      class: "#4ec9b0",
+      punctuation: "#abb2bf",
+      operator: "#56b6c2",
+      property: "#e06c75",
+      variable: "#e06c75",
+      tag: "#e06c75",
+      "attr-name": "#d19a66",
+      inserted: "#98c379",
+      deleted: "#e06c75",
+      hunk: "#56b6c2",
+    },
+  },
+  "one-light": {
+    background: "#fafafa",
+    foreground: "#383a42",
+    highlight: "#e5e5e6",
+    gutter: "#9d9d9f",
+    diff: { inserted: "#50a14f1f", deleted: "#e456491f" },
+    tokens: {
+      keyword: "#a626a4",
+      function: "#4078f2",
+      string: "#50a14f",
+      comment: "#a0a1a7",
+      number: "#986801",
+      boolean: "#0184bc",
+      type: "#c18401",
+      class: "#c18401",
+      punctuation: "#383a42",
+      operator: "#0184bc",
+      property: "#e45649",
+      variable: "#e45649",
+      tag: "#e45649",
+      "attr-name": "#986801",
+      inserted: "#50a14f",
+      deleted: "#e45649",
+      hunk: "#0184bc",
+    },
+  },
+};
+
+/**
+ * Returns the CSS for a built-in syntax highlighting theme.
+ * The stylesheet only targets code blocks rendered by Markyfy (`pre > code[class*="language-"]`)
+ * and the `.token.*` classes emitted by `SyntaxHighlighter`, so it leaves global element styles alone.
+ *
+ * @param {ThemeName} [themeName="one-dark"] - The name of the theme.
+ * @returns {string} The theme's CSS.
+ * @throws {Error} If no theme with the given name exists.
+ */
+export function getThemeCss(themeName: ThemeName = "one-dark"): string {
+  const theme = themes[themeName];
+  if (!theme) {
+    throw new Error(`Unknown theme: ${themeName}`);
+  }
+
+  const tokenRules = Object.entries(theme.tokens).map(
+    ([token, color]) => `.token.${token} { color: ${color}; }`
+  );
+
+  return [
+    `pre > code[class*="language-"] {`,
+    `  display: block;`,
+    `  background: ${theme.background};`,
+    `  color: ${theme.foreground};`,
+    `  padding: 1rem;`,
+    `  border-radius: 5px;`,
+    `  overflow-x: auto;`,
+    `  font-family: "Fira Code", monospace;`,
+    `  font-size: 14px;`,
+    `  line-height: 1.5;`,
+    `}`,
+    `pre > code[class*="language-"] .line {`,
+    `  display: inline-block;`,
+    `  min-width: 100%;`,
+    `}`,
+    `pre > code[class*="language-"] .line.highlighted {`,
+    `  background: ${theme.highlight};`,
+    `}`,
+    `pre.line-numbers > code[class*="language-"] .line::before {`,
+    `  content: attr(data-line);`,
+    `  display: inline-block;`,
+    `  width: 2.5em;`,
+    `  margin-right: 1em;`,
+    `  text-align: right;`,
+    `  color: ${theme.gutter};`,
+    `  user-select: none;`,
+    `}`,
+    `code[class*="language-diff-"] .token.inserted {`,
+    `  background: ${theme.diff.inserted};`,
+    `}`,
+    `code[class*="language-diff-"] .token.deleted {`,
+    `  background: ${theme.diff.deleted};`,
+    `}`,
+    `.code-block > .code-title {`,
+    `  font-family: "Fira Code", monospace;`,
+    `  font-size: 13px;`,
+    `  color: ${theme.gutter};`,
+    `}`,
+    ...tokenRules,
+  ].join("\n");
+}
@@ -0,0 +1,80 @@
+/**
+ * Represents a heading in a table of contents, with the headings nested under it.
+ *
+ * @interface
+ */
+export interface TocEntry {
+  /** The plain text of the heading. */
+  text: string;
+
+  /** The `id` of the heading, unique within the document. */
+  id: string;
+
+  /** The depth of the heading (1 for `#`, 2 for `##`, ...). */
+  depth: number;
+
+  /** The headings nested under this one. */
+  children: TocEntry[];
+}
+
+/**
+ * Represents options for generating a table of contents.
+ *
+ * @interface
+ */
+export interface TocOptions {
+  /**
+   * The smallest heading depth to include.
+   *
+   * @type {number}
+   * @default 1
+   */
+  minDepth?: number;
+
+  /**
+   * The largest heading depth to include.
+   *
+   * @type {number}
+   * @default 6
+   */
+  maxDepth?: number;
+
+  /**
+   * Renders a paragraph consisting only of `[[toc]]` as the table of contents.
+   *
+   * @type {boolean}
+   * @default false
+   */
+  placeholder?: boolean;
+}
+
+/**
+ * Builds a nested table of contents from a flat list of headings in document order.
+ * Each heading is nested under the closest preceding heading of a smaller depth;
+ * headings outside the depth limits are left out.
+ *
+ * @param {Omit<TocEntry, "children">[]} headings - The headings in document order.
+ * @param {TocOptions} [options={}] - The depth limits.
+ * @returns {TocEntry[]} The top-level entries of the table of contents.
+ */
+export function buildToc(
+  headings: Omit<TocEntry, "children">[],
+  options: TocOptions = {}
+): TocEntry[] {
+  const { minDepth = 1, maxDepth = 6 } = options;
+  const root: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+
+  for (const heading of headings) {
+    if (heading.depth < minDepth || heading.depth > maxDepth) continue;
+
+    const entry: TocEntry = { ...heading, children: [] };
+    while (stack.length && stack[stack.length - 1].depth >= entry.depth) {
+      stack.pop();
+    }
+    (stack.length ? stack[stack.length - 1].children : root).push(entry);
+    stack.push(entry);
+  }
+
+  return root;
+}
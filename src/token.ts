@@ -14,6 +14,22 @@
  * @property {"list_item"} list_item - Represents an item in a list.
  * @property {"blockquote"} blockquote - Represents a blockquote (e.g., `> text`).
  * @property {"text"} text - Represents plain text.
+ * @property {"line_break"} line_break - Represents a hard line break (two trailing spaces or a backslash before a line ending, or any line ending with `breaks`).
+ * @property {"table"} table - Represents a GFM table.
+ * @property {"table_row"} table_row - Represents a row within a table.
+ * @property {"table_cell"} table_cell - Represents a cell within a table row.
+ * @property {"strikethrough"} strikethrough - Represents strikethrough text (e.g., `~~text~~`).
+ * @property {"html_block"} html_block - Represents a block of raw HTML (e.g., `<details>`).
+ * @property {"html_inline"} html_inline - Represents an inline raw HTML tag (e.g., `<kbd>`).
+ * @property {"image"} image - Represents an image (e.g., `![alt](src)`).
+ * @property {"definition"} definition - Represents a link reference definition (e.g., `[ref]: url`), which renders nothing.
+ * @property {"thematic_break"} thematic_break - Represents a thematic break (e.g., `---`).
+ * @property {"toc"} toc - Represents a `[[toc]]` placeholder, which renders the table of contents.
+ * @property {"footnote_ref"} footnote_ref - Represents a footnote reference (e.g., `[^1]`).
+ * @property {"footnote_definition"} footnote_definition - Represents a footnote definition (e.g., `[^1]: note`), rendered in the footnotes section.
+ * @property {"math_inline"} math_inline - Represents inline TeX math (e.g., `$E=mc^2$`), with the TeX in `text`.
+ * @property {"math_block"} math_block - Represents a block of TeX math (e.g., `$$ ... $$`), with the TeX in `text`.
+ * @property {"front_matter"} front_matter - Represents YAML or TOML front matter at the start of the document, which renders nothing.
  */
 export type TokenType =
   | "paragraph"
@@ -26,17 +42,106 @@ export type TokenType =
   | "list"
   | "list_item"
   | "blockquote"
-  | "text";
+  | "text"
+  | "line_break"
+  | "table"
+  | "table_row"
+  | "table_cell"
+  | "strikethrough"
+  | "html_block"
+  | "html_inline"
+  | "image"
+  | "definition"
+  | "thematic_break"
+  | "toc"
+  | "front_matter"
+  | "footnote_ref"
+  | "footnote_definition"
+  | "math_inline"
+  | "math_block";
+
+/**
+ * Represents the type of a token produced by an extension (e.g., "admonition").
+ * Extension token types must not collide with the built-in {@link TokenType}s.
+ *
+ * @typedef {string} ExtensionTokenType
+ */
+export type ExtensionTokenType = string & {};
+
+/**
+ * Represents the alignment of a table column, as declared by the table's delimiter row.
+ * `null` means no alignment was specified.
+ *
+ * @typedef {string | null} TableAlign
+ */
+export type TableAlign = "left" | "center" | "right" | null;
+
+/**
+ * Represents a point in the Markdown source.
+ *
+ * @interface
+ */
+export interface Position {
+  /** The 1-based line number. */
+  line: number;
+
+  /** The 1-based column number. */
+  column: number;
+}
+
+/**
+ * Represents the span of Markdown source a token was produced from.
+ * `start` points at the first character of the token and `end` points just past its last character.
+ *
+ * @interface
+ */
+export interface TokenPosition {
+  /** The position of the first character of the token. */
+  start: Position;
+
+  /** The position just past the last character of the token. */
+  end: Position;
+}
+
+/**
+ * Represents the metadata that follows the language in the info string of a fenced code block,
+ * e.g. `title="api.ts" {3-5} showLineNumbers` in ```` ```ts title="api.ts" {3-5} showLineNumbers ````.
+ *
+ * @interface
+ */
+export interface CodeBlockMeta {
+  /** The info string after the language, as written. */
+  raw: string;
+
+  /** The title shown above the code, from `title="..."` or `filename="..."`. */
+  title?: string;
+
+  /** Whether to show line numbers, from `showLineNumbers`. */
+  showLineNumbers: boolean;
+
+  /** The number of the first line, from `showLineNumbers=<n>`. Defaults to 1. */
+  startLine: number;
+
+  /** The 1-based numbers of the lines to emphasize, from ranges such as `{1,3-5}`, within the lines of the code. */
+  highlightLines: number[];
+
+  /** Every `key=value` attribute and bare flag in the info string, including those above. */
+  attributes: Record<string, string | true>;
+}
 
 /**
  * Represents a token in the Markdown parsing process.
  * A token is a structured representation of a Markdown element, containing its type, raw content, and additional metadata.
  *
+ * Tokens are returned by `Markyfy.lex()` and accepted by `Markyfy.render()`. Block-level tokens nest other blocks in
+ * `children` (blockquotes) or `items` (lists), while inline content lives in `children` of paragraphs, headers,
+ * list items and table cells. Every token produced by the lexer carries a `position`.
+ *
  * @interface
  */
 export interface Token {
   /** The type of the token (e.g., "paragraph", "header", etc.). */
-  type: TokenType;
+  type: TokenType | ExtensionTokenType;
 
   /** The raw content of the token as it appears in the Markdown source. */
   raw: string;
@@ -53,12 +158,45 @@ export interface Token {
   /** The language of the code block token, if applicable. */
   lang?: string;
 
-  /** The URL of the link token, if applicable. */
+  /** The metadata from the info string of the code block token, if it has any. */
+  meta?: CodeBlockMeta;
+
+  /** The normalized label of the footnote reference or definition token, if applicable. */
+  label?: string;
+
+  /** The parsed data of the front matter token, if applicable. Its `lang` is "yaml" or "toml". */
+  data?: Record<string, unknown>;
+
+  /** The URL of the link or image token, if applicable. */
   url?: string;
 
+  /** The title of the link or image token, if applicable. */
+  title?: string;
+
   /** The child tokens contained within this token, if applicable. */
   children?: Token[];
 
   /** Indicates whether a list token is ordered (true) or unordered (false). */
   ordered?: boolean;
+
+  /** Indicates whether a math_inline token is display math, written `$$...$$` inside a paragraph. */
+  display?: boolean;
+
+  /** Indicates whether a list item belongs to a loose list, whose items are separated by blank lines (CommonMark mode). */
+  loose?: boolean;
+
+  /** Indicates whether a list item is a GFM task item (e.g., `- [ ] todo`). */
+  task?: boolean;
+
+  /** Indicates whether a task list item is checked (e.g., `- [x] done`). */
+  checked?: boolean;
+
+  /** Indicates whether a table row or cell belongs to the table header. */
+  header?: boolean;
+
+  /** The column alignment of a table cell, if applicable. */
+  align?: TableAlign;
+
+  /** The span of Markdown source this token was produced from. Set on every token produced by the lexer. */
+  position?: TokenPosition;
 }
@@ -0,0 +1,202 @@
+import * as fs from "fs";
+import {
+  existsSync,
+  FSWatcher,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+/**
+ * Runs the command line with `args` and collects its exit status and output. The CLI runs
+ * when its module is loaded, so each run loads a fresh copy of it.
+ */
+function run(...args: string[]): {
+  status: number;
+  stdout: string;
+  stderr: string;
+} {
+  const output = { stdout: "", stderr: "" };
+  const stdout = jest
+    .spyOn(process.stdout, "write")
+    .mockImplementation((chunk) => !!(output.stdout += chunk));
+  const stderr = jest
+    .spyOn(process.stderr, "write")
+    .mockImplementation((chunk) => !!(output.stderr += chunk));
+  const argv = process.argv;
+  process.argv = ["node", "markyfy", ...args];
+  try {
+    jest.isolateModules(() => require("../src/cli"));
+    return { status: Number(process.exitCode), ...output };
+  } finally {
+    process.argv = argv;
+    process.exitCode = undefined;
+    stdout.mockRestore();
+    stderr.mockRestore();
+  }
+}
+
+/**
+ * Waits until `check` returns true, polling every few milliseconds.
+ */
+async function waitFor(check: () => boolean, timeout = 5000): Promise<void> {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeout) throw new Error("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe("markyfy CLI", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "markyfy-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe("build", () => {
+    it("converts a directory of Markdown files into an output directory", () => {
+      mkdirSync(join(directory, "docs/guide"), { recursive: true });
+      writeFileSync(join(directory, "docs/index.md"), "# Home");
+      writeFileSync(join(directory, "docs/guide/start.markdown"), "*go*");
+      writeFileSync(join(directory, "docs/notes.txt"), "# Not Markdown");
+
+      const out = join(directory, "site");
+      expect(run(join(directory, "docs"), "--out", out)).toMatchObject({
+        status: 0,
+        stderr: "",
+      });
+      expect(readFileSync(join(out, "index.html"), "utf8")).toBe(
+        '<h1 id="home">Home</h1>'
+      );
+      expect(readFileSync(join(out, "guide/start.html"), "utf8")).toBe(
+        "<p><em>go</em></p>"
+      );
+      expect(existsSync(join(out, "notes.html"))).toBe(false);
+    });
+
+    it("writes a file to stdout, filling in the template", () => {
+      const input = join(directory, "page.md");
+      const template = join(directory, "page.html");
+      writeFileSync(input, "# A\n\n## B");
+      writeFileSync(template, "<main>{{ content }}</main>{{toc}}");
+
+      const { status, stdout } = run(input, "--template", template);
+      expect(status).toBe(0);
+      expect(stdout).toBe(
+        '<main><h1 id="a">A</h1>\n<h2 id="b">B</h2></main>' +
+          '<nav class="toc"><ul><li><a href="#a">A</a><ul><li><a href="#b">B</a></li></ul></li></ul></nav>\n'
+      );
+    });
+
+    it("passes parser options through", () => {
+      const input = join(directory, "page.md");
+      writeFileSync(input, "# A\n\n<b>x</b>");
+      expect(run(input, "--no-header-ids", "--html", "escape").stdout).toBe(
+        "<h1>A</h1>\n<p>&lt;b&gt;x&lt;/b&gt;</p>\n"
+      );
+    });
+
+    it("reports usage errors and missing files", () => {
+      expect(run("--html", "nope")).toMatchObject({
+        status: 2,
+        stderr: expect.stringContaining("markyfy: "),
+      });
+      expect(run(join(directory, "missing.md"))).toMatchObject({
+        status: 2,
+        stderr: expect.stringContaining("missing.md: no such file"),
+      });
+    });
+  });
+
+  describe("--check", () => {
+    it("reports the diagnostics of every file without writing output", () => {
+      writeFileSync(join(directory, "good.md"), "# Good");
+      writeFileSync(join(directory, "bad.md"), "text\n\n#NoSpace");
+
+      const { status, stdout, stderr } = run(directory, "--check");
+      expect(status).toBe(1);
+      expect(stdout).toBe("");
+      expect(stderr).toMatch(
+        /bad\.md:3:1: warning: .* \(malformed-header\)\n$/
+      );
+      expect(existsSync(join(directory, "bad.html"))).toBe(false);
+      expect(existsSync(join(directory, "good.html"))).toBe(false);
+    });
+
+    it("succeeds for files without diagnostics", () => {
+      writeFileSync(join(directory, "good.md"), "# Good");
+      expect(run(directory, "--check")).toEqual({
+        status: 0,
+        stdout: "",
+        stderr: "",
+      });
+    });
+  });
+
+  describe("--watch", () => {
+    let watchers: FSWatcher[];
+    let sigint: NodeJS.SignalsListener[];
+
+    beforeEach(() => {
+      watchers = [];
+      const watch = fs.watch;
+      jest.spyOn(fs, "watch").mockImplementation(((...args: never[]) => {
+        const watcher = (watch as (...args: never[]) => FSWatcher)(...args);
+        watchers.push(watcher);
+        return watcher;
+      }) as typeof fs.watch);
+      sigint = process.listeners("SIGINT");
+    });
+
+    afterEach(() => {
+      watchers.forEach((watcher) => watcher.close());
+      for (const listener of process.listeners("SIGINT")) {
+        if (!sigint.includes(listener)) process.off("SIGINT", listener);
+      }
+      jest.restoreAllMocks();
+    });
+
+    it("rebuilds a file when it changes", async () => {
+      const input = join(directory, "page.md");
+      const out = join(directory, "page.html");
+      writeFileSync(input, "one");
+
+      expect(run(input, "--out", out, "--watch")).toMatchObject({
+        status: 0,
+        stderr: expect.stringContaining("Watching"),
+      });
+      expect(readFileSync(out, "utf8")).toBe("<p>one</p>");
+
+      writeFileSync(input, "two");
+      await waitFor(() => readFileSync(out, "utf8") === "<p>two</p>");
+    });
+
+    it("rebuilds every file when the template changes", async () => {
+      const template = join(directory, "template.html");
+      const out = join(directory, "site");
+      mkdirSync(join(directory, "docs"));
+      writeFileSync(join(directory, "docs/a.md"), "a");
+      writeFileSync(join(directory, "docs/b.md"), "b");
+      writeFileSync(template, "[{{content}}]");
+
+      run(join(directory, "docs"), "-o", out, "-t", template, "-w");
+      expect(readFileSync(join(out, "a.html"), "utf8")).toBe("[<p>a</p>]");
+
+      writeFileSync(template, "({{content}})");
+      await waitFor(
+        () =>
+          readFileSync(join(out, "a.html"), "utf8") === "(<p>a</p>)" &&
+          readFileSync(join(out, "b.html"), "utf8") === "(<p>b</p>)"
+      );
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { Diagnostic, Markyfy } from "../src";
+
+describe("code block metadata", () => {
+  const markyfy = new Markyfy();
+
+  it("collects highlighted lines from ranges", () => {
+    const [token] = markyfy.lex("```js {3, 1-2}\na\nb\nc\nd\n```");
+    expect(token.meta?.highlightLines).toEqual([1, 2, 3]);
+  });
+
+  it("clamps ranges to the lines of the code", () => {
+    const [token] = markyfy.lex("```js {0-1,3-100000000}\na\nb\nc\nd\n```");
+    expect(token.meta?.highlightLines).toEqual([1, 3, 4]);
+  });
+});
+
+describe("parseAsync", () => {
+  it("falls back to escaped code only for the blocks whose highlighter fails", async () => {
+    const diagnostics: Diagnostic[] = [];
+    const markyfy = new Markyfy({
+      highlight: async (code, lang) => {
+        if (lang === "bad") throw new Error(`cannot highlight ${lang}`);
+        return `<b>${code}</b>`;
+      },
+      onWarning: (diagnostic) => diagnostics.push(diagnostic),
+    });
+    const html = await markyfy.parseAsync(
+      "```js\na\n```\n\n```bad\n<b>\n```\n\n> ```js\n> c\n> ```"
+    );
+    expect(html).toBe(
+      [
+        '<pre><code class="language-js"><b>a</b></code></pre>',
+        '<pre><code class="language-bad">&lt;b&gt;</code></pre>',
+        '<blockquote><pre><code class="language-js"><b>c</b></code></pre></blockquote>',
+      ].join("\n")
+    );
+    expect(diagnostics).toMatchObject([
+      {
+        code: "parse-error",
+        message: "cannot highlight bad",
+        position: { start: { line: 5 } },
+      },
+    ]);
+  });
+
+  it("falls back per block when the highlighter throws synchronously", async () => {
+    const markyfy = new Markyfy({
+      highlight: (code, lang) => {
+        if (lang === "bad") throw new Error("unsupported");
+        return code.toUpperCase();
+      },
+      onWarning: () => {},
+    });
+    const markdown = "```bad\nx\n```\n\n```js\ny\n```";
+    const expected =
+      '<pre><code class="language-bad">x</code></pre>\n<pre><code class="language-js">Y</code></pre>';
+    expect(markyfy.parse(markdown)).toBe(expected);
+    expect(await markyfy.parseAsync(markdown)).toBe(expected);
+  });
+});
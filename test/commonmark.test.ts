@@ -0,0 +1,115 @@
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { Markyfy } from "../src";
+
+/**
+ * An example from the CommonMark spec; see test/commonmark/README.md.
+ */
+interface SpecExample {
+  example: number;
+  section: string;
+  markdown: string;
+  html: string;
+}
+
+const SPEC = join(__dirname, "commonmark", "spec.json");
+const KNOWN_FAILURES = join(__dirname, "commonmark", "known-failures.json");
+const README = join(__dirname, "..", "README.md");
+const REPORT =
+  /(<!-- commonmark-report:start -->\n)[\s\S]*?(<!-- commonmark-report:end -->)/;
+
+const BLOCK_TAGS =
+  "address|article|aside|blockquote|body|dd|details|div|dl|dt|figcaption|figure|footer|" +
+  "h[1-6]|header|hr|html|li|main|nav|ol|p|pre|section|table|tbody|td|tfoot|th|thead|tr|ul";
+
+/**
+ * Normalizes HTML for comparison like the spec's own test runner: whitespace around
+ * block-level tags is insignificant, and void tags may or may not be self-closed.
+ */
+function normalize(html: string): string {
+  return html
+    .replace(/\s*\/>/g, ">")
+    .replace(new RegExp(`\\s*(</?(?:${BLOCK_TAGS})\\b[^>]*>)\\s*`, "g"), "$1")
+    .trim();
+}
+
+/**
+ * Renders the pass rates per section as a Markdown table.
+ */
+function reportTable(
+  examples: SpecExample[],
+  failures: Record<string, number[]>
+): string {
+  const sections = [...new Set(examples.map((example) => example.section))];
+  const rows = sections.map((section) => {
+    const total = examples.filter((example) => example.section === section);
+    const passed = total.length - (failures[section]?.length ?? 0);
+    return `| ${section} | ${passed}/${total.length} |`;
+  });
+  const failed = Object.values(failures).flat().length;
+  const passed = examples.length - failed;
+  const rate = ((100 * passed) / examples.length).toFixed(1);
+  return [
+    "| Section | Passing |",
+    "| --- | --- |",
+    ...rows,
+    `| **Total** | **${passed}/${examples.length} (${rate}%)** |`,
+    "",
+  ].join("\n");
+}
+
+const examples: SpecExample[] = JSON.parse(readFileSync(SPEC, "utf8"));
+const markyfy = new Markyfy({
+  commonmark: true,
+  gfm: false,
+  headerIds: false,
+  html: "passthrough",
+  sanitize: false,
+  frontMatter: false,
+  onWarning: () => {},
+});
+const render = (markdown: string) => normalize(markyfy.parse(markdown));
+
+// `UPDATE_COMMONMARK=1 npm test` records the current failures and the README's pass-rate table.
+if (process.env.UPDATE_COMMONMARK) {
+  const failures: Record<string, number[]> = {};
+  for (const { example, section, markdown, html } of examples) {
+    if (render(markdown) !== normalize(html)) {
+      (failures[section] ??= []).push(example);
+    }
+  }
+  writeFileSync(KNOWN_FAILURES, JSON.stringify(failures, null, 2) + "\n");
+  const readme = readFileSync(README, "utf8");
+  writeFileSync(
+    README,
+    readme.replace(REPORT, `$1${reportTable(examples, failures)}$2`)
+  );
+}
+
+const knownFailures: Record<string, number[]> = JSON.parse(
+  readFileSync(KNOWN_FAILURES, "utf8")
+);
+const failing = new Set(Object.values(knownFailures).flat());
+
+describe("CommonMark spec", () => {
+  const sections = [...new Set(examples.map((example) => example.section))];
+
+  describe.each(sections)("%s", (section) => {
+    for (const { example, markdown, html } of examples.filter(
+      (example) => example.section === section
+    )) {
+      // Known failures must keep failing, so a fix is noticed and recorded.
+      const test = failing.has(example) ? it.failing : it;
+      test(`example ${example}`, () => {
+        expect(render(markdown)).toBe(normalize(html));
+      });
+    }
+  });
+
+  it("reports the current pass rates in the README", () => {
+    const readme = readFileSync(README, "utf8").match(REPORT);
+    expect(readme?.[0]).toBe(
+      `${readme?.[1]}${reportTable(examples, knownFailures)}${readme?.[2]}`
+    );
+  });
+});
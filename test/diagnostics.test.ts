@@ -0,0 +1,57 @@
+import { Diagnostic, Markyfy } from "../src";
+
+/**
+ * Parses Markdown and collects the diagnostics reported for it.
+ */
+function diagnose(markdown: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  new Markyfy({
+    onWarning: (diagnostic) => diagnostics.push(diagnostic),
+  }).parse(markdown);
+  return diagnostics;
+}
+
+describe("diagnostics", () => {
+  it("logs nothing without onWarning", () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const markyfy = new Markyfy();
+      const markdown = "# Title\n\n```js\nunclosed";
+      markyfy.getToc(markdown);
+      markyfy.parse(markdown);
+      expect(error).not.toHaveBeenCalled();
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  it("reports rejected front matter as a warning", () => {
+    expect(diagnose("---\n- a\n---\nbody")).toMatchObject([
+      { code: "invalid-front-matter", severity: "warning" },
+    ]);
+    expect(
+      new Markyfy({ strict: true }).parse("---\n- a\n---\nbody")
+    ).toContain("<p>body</p>");
+  });
+
+  it("reports a link destination without a closing )", () => {
+    expect(diagnose("a\nsee [docs](http://x\nb")).toEqual([
+      {
+        code: "unterminated-link",
+        severity: "warning",
+        message: "Unterminated link destination; expected a closing )",
+        position: {
+          start: { line: 2, column: 5 },
+          end: { line: 2, column: 20 },
+        },
+      },
+    ]);
+    expect(diagnose("![img](x")).toMatchObject([
+      { code: "unterminated-link", position: { start: { column: 2 } } },
+    ]);
+  });
+
+  it("does not report closed or escaped links", () => {
+    expect(diagnose("[a](b) \\[c](d [e](f\n)")).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { Markyfy } from "../src";
+import { expectLinearTime } from "./linearTime";
+
+describe("emphasis", () => {
+  const markyfy = new Markyfy();
+
+  it.each([
+    ["***a***", "<p><em><strong>a</strong></em></p>"],
+    ["*a **b** c*", "<p><em>a <strong>b</strong> c</em></p>"],
+    ["**a *b* c**", "<p><strong>a <em>b</em> c</strong></p>"],
+    ["*(*a*)*", "<p><em>(<em>a</em>)</em></p>"],
+    ["~~a *b*~~", "<p><del>a <em>b</em></del></p>"],
+  ])("nests %p", (markdown, html) => {
+    expect(markyfy.parse(markdown)).toBe(html);
+  });
+
+  it.each([
+    ["foo*bar*baz", "<p>foo<em>bar</em>baz</p>"],
+    ["*foo**bar**baz*", "<p><em>foo<strong>bar</strong>baz</em></p>"],
+    ["snake_case_name", "<p>snake_case_name</p>"],
+    ["_a_b", "<p>_a_b</p>"],
+  ])("applies the intraword rules to %p", (markdown, html) => {
+    expect(markyfy.parse(markdown)).toBe(html);
+  });
+
+  it.each([
+    ["*a**", "<p><em>a</em>*</p>"],
+    ["**a*", "<p>*<em>a</em></p>"],
+    ["**foo*bar**", "<p><strong>foo*bar</strong></p>"],
+    ["a * b *", "<p>a * b *</p>"],
+  ])("keeps the unmatched delimiters of %p as text", (markdown, html) => {
+    expect(markyfy.parse(markdown)).toBe(html);
+  });
+
+  it("records the position of nested emphasis", () => {
+    const [paragraph] = markyfy.lex("*a **b***");
+    expect(paragraph.children).toMatchObject([
+      {
+        type: "italic",
+        position: { start: { column: 1 }, end: { column: 10 } },
+        children: [
+          { type: "text", text: "a " },
+          {
+            type: "bold",
+            position: { start: { column: 4 }, end: { column: 9 } },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it.each(["*a* ", "a* ", "**a* ", "_a_ ", "~~a~~ ", "*a **b** c* "])(
+    "matches many %p runs in linear time",
+    (run) => {
+      expectLinearTime((size) => markyfy.parse(run.repeat(size)));
+    }
+  );
+});
@@ -0,0 +1,186 @@
+import { BlockTokenizer, Extension, InlineTokenizer, Markyfy } from "../src";
+
+/**
+ * A block tokenizer claiming every line that starts with `marker`.
+ */
+function claimLine(marker: string, priority?: number): BlockTokenizer {
+  return {
+    priority,
+    tokenize: (lines, startIndex) =>
+      lines[startIndex].startsWith(marker)
+        ? {
+            token: { type: "claimed", raw: lines[startIndex] },
+            newIndex: startIndex,
+          }
+        : undefined,
+  };
+}
+
+const renderClaimed: Extension["renderer"] = {
+  claimed: (token, { escapeHtml }) =>
+    `<div class="claimed">${escapeHtml(token.raw)}</div>`,
+};
+
+/**
+ * A `:::` container whose body is lexed as Markdown with `lexBlocks`.
+ */
+const container: Extension = {
+  name: "container",
+  block: [
+    {
+      tokenize: (lines, startIndex, { lexBlocks }) => {
+        if (!lines[startIndex].startsWith(":::")) return undefined;
+        const end = lines.indexOf(":::", startIndex + 1);
+        if (end < 0) return undefined;
+        return {
+          token: {
+            type: "container",
+            raw: lines.slice(startIndex, end + 1).join("\n"),
+            children: lexBlocks(
+              lines.slice(startIndex + 1, end).join("\n"),
+              startIndex + 2
+            ),
+          },
+          newIndex: end,
+        };
+      },
+    },
+  ],
+  renderer: {
+    container: (_token, { renderChildren }) =>
+      `<section>\n${renderChildren()}\n</section>`,
+  },
+};
+
+describe("extensions", () => {
+  describe("block tokenizer priorities", () => {
+    it("runs a tokenizer without a priority before the built-in ones", () => {
+      const markyfy = new Markyfy().use({
+        name: "first",
+        block: [claimLine("#")],
+        renderer: renderClaimed,
+      });
+      expect(markyfy.parse("# Title")).toBe(
+        '<div class="claimed"># Title</div>'
+      );
+    });
+
+    it("runs a tokenizer before a built-in one of equal priority", () => {
+      const markyfy = new Markyfy().use({
+        name: "header",
+        block: [claimLine("#", 100)],
+        renderer: renderClaimed,
+      });
+      expect(markyfy.parse("# Title")).toBe(
+        '<div class="claimed"># Title</div>'
+      );
+    });
+
+    it("runs a tokenizer with a higher priority after the built-in ones", () => {
+      const markyfy = new Markyfy().use({
+        name: "last",
+        block: [claimLine("#", 1000), claimLine("%", 1000)],
+        renderer: renderClaimed,
+      });
+      expect(markyfy.parse("# Title\n\n% note")).toBe(
+        '<h1 id="title">Title</h1>\n<div class="claimed">% note</div>'
+      );
+    });
+
+    it("orders the tokenizers of several extensions by priority", () => {
+      const markyfy = new Markyfy()
+        .use({
+          name: "late",
+          block: [
+            {
+              priority: 50,
+              tokenize: (lines, startIndex) =>
+                lines[startIndex]
+                  ? {
+                      token: { type: "late", raw: lines[startIndex] },
+                      newIndex: startIndex,
+                    }
+                  : undefined,
+            },
+          ],
+          renderer: { late: () => "<p>late</p>" },
+        })
+        .use({
+          name: "early",
+          block: [claimLine("!", 10)],
+          renderer: renderClaimed,
+        });
+      expect(markyfy.parse("!a\n\nb")).toBe(
+        '<div class="claimed">!a</div>\n<p>late</p>'
+      );
+    });
+  });
+
+  describe("lexBlocks", () => {
+    const markyfy = new Markyfy().use(container);
+
+    it("lexes the body of a container as Markdown", () => {
+      expect(markyfy.parse("::: Note\n# Title\n\n*a*\n:::\n\nafter")).toBe(
+        '<section>\n<h1 id="title">Title</h1><p><em>a</em></p>\n</section>\n<p>after</p>'
+      );
+    });
+
+    it("gives nested tokens their positions in the document", () => {
+      const [, token] = markyfy.lex("intro\n\n:::\n- a\n- b\n:::");
+      expect(token).toMatchObject({
+        type: "container",
+        position: { start: { line: 3, column: 1 }, end: { line: 6 } },
+        children: [
+          {
+            type: "list",
+            position: { start: { line: 4, column: 1 }, end: { line: 5 } },
+          },
+        ],
+      });
+    });
+
+    it("lexes a container nested in a built-in block", () => {
+      expect(markyfy.parse("> :::\n> # a\n> :::")).toBe(
+        '<blockquote><section>\n<h1 id="a">a</h1>\n</section></blockquote>'
+      );
+      const [quote] = markyfy.lex("> :::\n> # a\n> :::");
+      expect(quote.children).toMatchObject([
+        {
+          type: "container",
+          position: { start: { line: 1 }, end: { line: 3 } },
+          children: [
+            { type: "header", position: { start: { line: 2, column: 3 } } },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe("inline tokenizer priorities", () => {
+    const emoji: InlineTokenizer = {
+      priority: 400,
+      tokenize: (text, index) =>
+        text.startsWith("`:)`", index)
+          ? { token: { type: "emoji", raw: "`:)`" }, end: index + 4 }
+          : undefined,
+    };
+
+    it("runs a tokenizer before a built-in one of equal priority", () => {
+      const markyfy = new Markyfy().use({
+        name: "emoji",
+        inline: [emoji],
+        renderer: { emoji: () => "🙂" },
+      });
+      expect(markyfy.parse("a `:)` `b`")).toBe("<p>a 🙂 <code>b</code></p>");
+    });
+
+    it("leaves the text a built-in tokenizer claims first alone", () => {
+      const markyfy = new Markyfy().use({
+        name: "emoji",
+        inline: [{ ...emoji, priority: 1000 }],
+        renderer: { emoji: () => "🙂" },
+      });
+      expect(markyfy.parse("a `:)`")).toBe("<p>a <code>:)</code></p>");
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { Markyfy } from "../src";
+
+/**
+ * Renders the reference to footnote `number`, the `occurrence`th in the document.
+ */
+function ref(number: number, occurrence = 1): string {
+  const id =
+    occurrence > 1 ? `fnref:${number}:${occurrence}` : `fnref:${number}`;
+  return `<sup class="footnote-ref"><a href="#fn:${number}" id="${id}">${number}</a></sup>`;
+}
+
+/**
+ * Renders the link from footnote `number` back to its `occurrence`th reference.
+ */
+function backref(number: number, occurrence = 1): string {
+  return occurrence > 1
+    ? `<a href="#fnref:${number}:${occurrence}" class="footnote-backref" aria-label="Back to reference ${number}-${occurrence}">↩<sup>${occurrence}</sup></a>`
+    : `<a href="#fnref:${number}" class="footnote-backref" aria-label="Back to reference ${number}">↩</a>`;
+}
+
+describe("footnotes", () => {
+  const markyfy = new Markyfy();
+
+  it("numbers footnotes in the order they are first referenced", () => {
+    expect(markyfy.parse("b[^b] a[^a] b[^b]\n\n[^a]: A\n[^b]: B")).toBe(
+      [
+        `<p>b${ref(1)} a${ref(2)} b${ref(1, 2)}</p>`,
+        '<section class="footnotes"><ol>',
+        `<li id="fn:1"><p>B ${backref(1)} ${backref(1, 2)}</p></li>`,
+        `<li id="fn:2"><p>A ${backref(2)}</p></li>`,
+        "</ol></section>",
+      ].join("\n")
+    );
+  });
+
+  it("renders definitions with several paragraphs and blocks", () => {
+    expect(
+      markyfy.parse(
+        "x[^n]\n\n[^n]: First.\n\n    Second.\n\n    - item\n\nafter"
+      )
+    ).toBe(
+      [
+        `<p>x${ref(1)}</p>`,
+        "<p>after</p>",
+        '<section class="footnotes"><ol>',
+        '<li id="fn:1"><p>First.</p>',
+        "<p>Second.</p>",
+        "<ul>",
+        "<li>item</li>",
+        "</ul>",
+        `${backref(1)}</li>`,
+        "</ol></section>",
+      ].join("\n")
+    );
+  });
+
+  it("drops unreferenced definitions", () => {
+    expect(markyfy.parse("x[^1]\n\n[^1]: one\n[^2]: unused")).toBe(
+      [
+        `<p>x${ref(1)}</p>`,
+        '<section class="footnotes"><ol>',
+        `<li id="fn:1"><p>one ${backref(1)}</p></li>`,
+        "</ol></section>",
+      ].join("\n")
+    );
+    expect(markyfy.parse("x\n\n[^1]: unused")).toBe("<p>x</p>");
+  });
+
+  it("keeps a reference without a definition as text", () => {
+    expect(markyfy.parse("x[^missing]")).toBe("<p>x[^missing]</p>");
+  });
+});
@@ -0,0 +1,133 @@
+import { Diagnostic, Markyfy, parseFrontMatter } from "../src";
+
+describe("front matter", () => {
+  const markyfy = new Markyfy({ onWarning: () => {} });
+
+  describe("YAML", () => {
+    it("parses nested mappings, sequences and comments", () => {
+      const { meta } = markyfy.parseWithMeta(
+        [
+          "---",
+          "# leading comment",
+          "title: Hello # trailing comment",
+          "author:",
+          "  name: Ada",
+          "  links:",
+          "    - https://example.com",
+          "    - '#hash'",
+          "tags: [guide, 'a, b', \"c\"]",
+          "draft: false",
+          "order: 3",
+          "empty: ~",
+          "---",
+          "# Hello",
+        ].join("\n")
+      );
+      expect(meta).toEqual({
+        title: "Hello",
+        author: { name: "Ada", links: ["https://example.com", "#hash"] },
+        tags: ["guide", "a, b", "c"],
+        draft: false,
+        order: 3,
+        empty: null,
+      });
+    });
+
+    it("parses literal and folded block scalars", () => {
+      expect(
+        parseFrontMatter("a: |\n  one\n  two\nb: >\n  one\n  two\n", "yaml")
+      ).toEqual({ a: "one\ntwo\n", b: "one two\n" });
+    });
+
+    it("parses a document without front matter data as empty", () => {
+      expect(markyfy.parseWithMeta("---\n---\ntext")).toEqual({
+        html: "<p>text</p>",
+        meta: {},
+      });
+    });
+  });
+
+  describe("TOML", () => {
+    it("parses tables, arrays and comments", () => {
+      expect(
+        parseFrontMatter(
+          [
+            'title = "Hello" # comment',
+            "# comment",
+            "date = 2024-05-01",
+            "[author.links]",
+            'home = "https://example.com"',
+            "[build]",
+            "count = 1_000",
+            'tags = ["a", "b"]',
+          ].join("\n"),
+          "toml"
+        )
+      ).toEqual({
+        title: "Hello",
+        date: "2024-05-01",
+        author: { links: { home: "https://example.com" } },
+        build: { count: 1000, tags: ["a", "b"] },
+      });
+    });
+  });
+
+  describe("invalid input", () => {
+    it.each([
+      ["YAML that is not a mapping", "---\n- a\n---\nbody"],
+      ["YAML with bad indentation", "---\na: 1\n   b: 2\n---\nbody"],
+      ["TOML without a value", "+++\ntitle\n+++\nbody"],
+      ["TOML with an invalid value", "+++\ntitle = nope\n+++\nbody"],
+    ])("parses %s as Markdown", (_, markdown) => {
+      const diagnostics: Diagnostic[] = [];
+      const { html, meta } = new Markyfy({
+        onWarning: (diagnostic) => diagnostics.push(diagnostic),
+      }).parseWithMeta(markdown);
+      expect(meta).toEqual({});
+      expect(html).toContain("body");
+      expect(diagnostics).toMatchObject([{ code: "invalid-front-matter" }]);
+    });
+
+    it.each([
+      ["a YAML __proto__ key", "---\n__proto__:\n  isAdmin: true\n---\nx"],
+      ["a YAML constructor key", "---\nconstructor: 1\n---\nx"],
+      ["a TOML __proto__ table", '+++\n[__proto__]\npolluted = "yes"\n+++\nx'],
+      [
+        "a nested TOML __proto__ table",
+        '+++\n[a.__proto__]\npolluted = "yes"\n+++\nx',
+      ],
+      ["a TOML prototype key", '+++\nprototype = "yes"\n+++\nx'],
+    ])("rejects %s without touching Object.prototype", (_, markdown) => {
+      const { meta } = markyfy.parseWithMeta(markdown);
+      expect(meta).toEqual({});
+      expect(Object.getPrototypeOf(meta)).toBe(Object.prototype);
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(({} as Record<string, unknown>).isAdmin).toBeUndefined();
+    });
+  });
+
+  it("uses a custom parseFrontMatter hook", () => {
+    const calls: string[] = [];
+    const custom = new Markyfy({
+      parseFrontMatter: (source, format) => {
+        calls.push(format);
+        if (format === "toml") throw new Error("unsupported");
+        return { source };
+      },
+      onWarning: () => {},
+    });
+    expect(custom.parseWithMeta("---\nanything: [\n---\nx").meta).toEqual({
+      source: "anything: [",
+    });
+    expect(custom.parseWithMeta("+++\na = 1\n+++\nx").meta).toEqual({});
+    expect(calls).toEqual(["yaml", "toml"]);
+  });
+
+  it("is parsed as Markdown with frontMatter disabled", () => {
+    const { meta, html } = new Markyfy({ frontMatter: false }).parseWithMeta(
+      "---\ntitle: x\n---\nbody"
+    );
+    expect(meta).toEqual({});
+    expect(html).toContain("<hr>");
+  });
+});
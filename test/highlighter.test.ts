@@ -0,0 +1,179 @@
+import { SyntaxHighlighter } from "../src";
+import { languages } from "../src/languages";
+import { expectLinearTime } from "./linearTime";
+
+describe("syntax highlighter", () => {
+  const highlighter = new SyntaxHighlighter(languages);
+
+  /**
+   * Lists the tokens of the code as `type value` pairs, leaving out unmatched text.
+   */
+  function tokens(code: string, lang: string): string[] {
+    return highlighter
+      .tokenize(code, lang)
+      .filter((token) => token.type !== "text")
+      .map((token) => `${token.type} ${token.value}`);
+  }
+
+  it.each([
+    [
+      "javascript",
+      'const x = foo("a", 1); // note',
+      [
+        "keyword const",
+        "operator =",
+        "function foo",
+        "punctuation (",
+        'string "a"',
+        "punctuation ,",
+        "number 1",
+        "punctuation )",
+        "punctuation ;",
+        "comment // note",
+      ],
+    ],
+    [
+      "typescript",
+      "interface A { b: string }",
+      [
+        "keyword interface",
+        "class A",
+        "punctuation {",
+        "operator :",
+        "type string",
+        "punctuation }",
+      ],
+    ],
+    [
+      "json",
+      '{"a": [1, true, null]}',
+      [
+        "punctuation {",
+        'property "a"',
+        "punctuation :",
+        "punctuation [",
+        "number 1",
+        "punctuation ,",
+        "boolean true",
+        "punctuation ,",
+        "boolean null",
+        "punctuation ]",
+        "punctuation }",
+      ],
+    ],
+    [
+      "bash",
+      'echo "$HOME" --force # done',
+      ["function echo", 'string "$HOME"', "property --force", "comment # done"],
+    ],
+    [
+      "python",
+      "def f(x):\n    return None  # ok",
+      [
+        "keyword def",
+        "function f",
+        "punctuation (",
+        "punctuation )",
+        "punctuation :",
+        "keyword return",
+        "boolean None",
+        "comment # ok",
+      ],
+    ],
+    [
+      "css",
+      ".a { color: #fff; }",
+      [
+        "class .a",
+        "punctuation {",
+        "property color",
+        "punctuation :",
+        "number #fff",
+        "punctuation ;",
+        "punctuation }",
+      ],
+    ],
+    [
+      "html",
+      '<a href="x">&amp;</a>',
+      [
+        "tag <a",
+        "attr-name href",
+        'string "x"',
+        "tag >",
+        "number &amp;",
+        "tag </a",
+        "tag >",
+      ],
+    ],
+    [
+      "yaml",
+      'key: "v" # c',
+      ["property key", "punctuation :", 'string "v"', "comment # c"],
+    ],
+    [
+      "sql",
+      "SELECT count(*) FROM t WHERE a = 'x';",
+      [
+        "keyword SELECT",
+        "function count",
+        "punctuation (",
+        "operator *",
+        "punctuation )",
+        "keyword FROM",
+        "keyword WHERE",
+        "operator =",
+        "string 'x'",
+        "punctuation ;",
+      ],
+    ],
+    [
+      "diff",
+      "@@ -1 +1 @@\n-a\n+b",
+      ["hunk @@ -1 +1 @@", "deleted -a", "inserted +b"],
+    ],
+  ])("tokenizes %s", (lang, code, expected) => {
+    expect(tokens(code, lang)).toEqual(expected);
+  });
+
+  it.each([
+    ["js", "javascript"],
+    ["ts", "typescript"],
+    ["sh", "bash"],
+    ["py", "python"],
+    ["scss", "css"],
+    ["xml", "html"],
+    ["yml", "yaml"],
+  ])("resolves the alias %p to %p", (alias, name) => {
+    expect(highlighter.getLanguage(alias)?.name).toBe(name);
+  });
+
+  it("escapes the code and wraps tokens in spans", () => {
+    expect(highlighter.highlight('a < "b"', "javascript")).toBe(
+      'a <span class="token operator">&lt;</span> <span class="token string">&quot;b&quot;</span>'
+    );
+    expect(highlighter.highlight("<b>", "unknown")).toBe("&lt;b&gt;");
+  });
+
+  it.each([
+    ["css", "a"],
+    ["css", "a-"],
+    ["css", ".a "],
+    ["yaml", "a-"],
+    ["yaml", "a."],
+    ["javascript", "$a"],
+    ["html", "a:"],
+  ])("highlights a long line of %s made of %p in linear time", (lang, run) => {
+    expectLinearTime((size) => highlighter.highlight(run.repeat(size), lang));
+  });
+
+  it("looks back over a long run of spaces for an html attribute value in linear time", () => {
+    expectLinearTime((size) =>
+      highlighter.highlight(`=${" ".repeat(size)}`, "html")
+    );
+  });
+
+  it("detects the language of a long word in linear time", () => {
+    expectLinearTime((size) => highlighter.highlightAuto("a".repeat(size)));
+  });
+});
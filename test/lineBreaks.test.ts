@@ -0,0 +1,32 @@
+import { Markyfy } from "../src";
+import { expectLinearTime } from "./linearTime";
+
+describe("line breaks", () => {
+  const markyfy = new Markyfy();
+
+  it("keeps soft and hard breaks in paragraphs", () => {
+    expect(markyfy.parse("a  \nb\\\nc\nd")).toBe("<p>a<br>\nb<br>\nc\nd</p>");
+    expect(markyfy.parse("a **b\nc** d")).toBe(
+      "<p>a <strong>b\nc</strong> d</p>"
+    );
+  });
+
+  it("parses the continuation lines of a list item inline", () => {
+    expect(markyfy.parse("- hard  \n  next")).toBe(
+      "<ul>\n<li>hard<br>\nnext</li>\n</ul>"
+    );
+    expect(markyfy.parse("- a\n  **b**")).toBe(
+      "<ul>\n<li>a\n<strong>b</strong></li>\n</ul>"
+    );
+    expect(markyfy.parse("- first line\n  wrapped here")).toBe(
+      "<ul>\n<li>first line\nwrapped here</li>\n</ul>"
+    );
+  });
+
+  it.each(["a \n", "x  \n", "a\\\n", "- a\n  b  \n"])(
+    "parses many lines ending in %p in linear time",
+    (line) => {
+      expectLinearTime((size) => markyfy.parse(line.repeat(size)));
+    }
+  );
+});
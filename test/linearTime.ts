@@ -0,0 +1,42 @@
+import { performance } from "perf_hooks";
+
+/**
+ * Times `run` on an input of `size`, keeping the fastest of a few runs so that a busy
+ * machine or a garbage collection pause does not count.
+ */
+function fastest(run: (size: number) => void, size: number): number {
+  let best = Infinity;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const start = performance.now();
+    run(size);
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+}
+
+/**
+ * Asserts that the work done by `run` grows linearly with the input size, by comparing the
+ * time it takes on an input 4 times larger: linear work takes about 4 times as long, quadratic
+ * work 16 times. Unlike a fixed time limit, the ratio does not depend on the speed of the
+ * machine. The smaller size is doubled until a run takes long enough to time reliably.
+ *
+ * @param run - Runs the code under test on an input of the given size.
+ * @param size - The initial smaller input size.
+ */
+export function expectLinearTime(
+  run: (size: number) => void,
+  size = 2000
+): void {
+  run(size); // Warms up the JIT compiler.
+  let small = fastest(run, size);
+  while (small < 20 && size < 256000) {
+    size *= 2;
+    small = fastest(run, size);
+  }
+  // A pause during the larger runs can still skew one measurement, but not three in a row.
+  let ratio = fastest(run, size * 4) / small;
+  for (let attempt = 1; attempt < 3 && ratio >= 8; attempt++) {
+    ratio = fastest(run, size * 4) / fastest(run, size);
+  }
+  expect(ratio).toBeLessThan(8);
+}
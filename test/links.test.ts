@@ -0,0 +1,47 @@
+import { Markyfy } from "../src";
+import { expectLinearTime } from "./linearTime";
+
+describe("links", () => {
+  const markyfy = new Markyfy();
+
+  it("parses destinations with balanced parentheses", () => {
+    expect(markyfy.parse("[a](((b)))")).toBe('<p><a href="((b))">a</a></p>');
+  });
+
+  it("parses destinations in angle brackets on a single line", () => {
+    expect(markyfy.parse("[a](<b)c>)")).toBe('<p><a href="b)c">a</a></p>');
+    expect(markyfy.parse("[a](<b\\>c>)")).toBe('<p><a href="b&gt;c">a</a></p>');
+  });
+
+  it("rejects a title in parentheses containing an unescaped (", () => {
+    expect(markyfy.parse("[a](b (c))")).toBe(
+      '<p><a href="b" title="c">a</a></p>'
+    );
+    expect(markyfy.parse("[a](b (c(d)))")).toBe("<p>[a](b (c(d)))</p>");
+  });
+
+  it("limits the nesting of parentheses in a destination", () => {
+    const nested = "(".repeat(32) + ")".repeat(32);
+    expect(markyfy.parse(`[a](${nested})`)).toContain("<a href=");
+    expect(markyfy.parse(`[a](${"(" + nested + ")"})`)).not.toContain(
+      "<a href="
+    );
+  });
+
+  it("leaves no blank line where a definition was", () => {
+    expect(markyfy.parse("[a]\n\n[a]: /u\n\nb")).toBe(
+      '<p><a href="/u">a</a></p>\n<p>b</p>'
+    );
+  });
+
+  it.each(["[", "![", "[a](", "![a](", "[a](<", "[a](x (", "[a](\\("])(
+    "parses a long run of unclosed %p in linear time",
+    (opener) => {
+      expectLinearTime((size) => markyfy.parse(opener.repeat(size)));
+    }
+  );
+
+  it("parses many links with brackets in their text in linear time", () => {
+    expectLinearTime((size) => markyfy.parse("[[a]](b) ".repeat(size)));
+  });
+});
@@ -0,0 +1,40 @@
+import { Markyfy } from "../src";
+import { expectLinearTime } from "./linearTime";
+
+describe("math", () => {
+  const markyfy = new Markyfy({ math: true });
+
+  it("parses $$...$$ inside a paragraph as display math", () => {
+    expect(markyfy.parse("a $$ x^2 $$ b")).toBe(
+      '<p>a <span class="math math-display">x^2</span> b</p>'
+    );
+    expect(markyfy.lex("a $$x$$")[0].children?.[1]).toMatchObject({
+      type: "math_inline",
+      text: "x",
+      display: true,
+    });
+  });
+
+  it("keeps an unmatched $$ as text", () => {
+    expect(markyfy.parse("costs $$5 or $x$")).toBe(
+      '<p>costs $$5 or <span class="math">x</span></p>'
+    );
+  });
+
+  it("keeps prices as text", () => {
+    expect(markyfy.parse("$5 and $10")).toBe("<p>$5 and $10</p>");
+  });
+
+  it.each(["$a ", "$$x\n"])(
+    "parses many unmatched %p in linear time",
+    (unmatched) => {
+      expectLinearTime((size) => markyfy.parse(unmatched.repeat(size)));
+    }
+  );
+
+  it("tries math blocks before tables", () => {
+    expect(markyfy.parse("$$ a | b $$\n--- | ---")).toBe(
+      '<div class="math">a | b</div>\n<p>--- | ---</p>'
+    );
+  });
+});
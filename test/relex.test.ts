@@ -0,0 +1,136 @@
+import { Markyfy } from "../src";
+
+describe("relex", () => {
+  const markyfy = new Markyfy({ onWarning: () => {} });
+
+  it("lexes the document again when an edit closes a fence", () => {
+    const markdown =
+      "# Title\n\nIntro\n\n```js\nconst a = 1;\n\nMore text\n\nEnd\n";
+    const result = markyfy.relex(markdown, markyfy.lex(markdown), {
+      offset: markdown.indexOf("More"),
+      deleteCount: 0,
+      text: "```\n",
+    });
+    expect(result.tokens).toEqual(markyfy.lex(result.markdown));
+    expect(result.tokens.map((token) => token.type)).toEqual([
+      "header",
+      "paragraph",
+      "code_block",
+      "paragraph",
+      "paragraph",
+    ]);
+  });
+
+  it("lexes the document again when an edit removes a fence", () => {
+    const markdown = "Intro\n\n```\na\n\nb\n```\n\nEnd\n";
+    const result = markyfy.relex(markdown, markyfy.lex(markdown), {
+      offset: markdown.indexOf("```"),
+      deleteCount: 4,
+      text: "",
+    });
+    expect(result.tokens).toEqual(markyfy.lex(result.markdown));
+  });
+
+  it.each([
+    ["adds a closing $$", "$$\n\na\n\nb\n\nc\n", "c\n", 0, "$$\n"],
+    ["removes a closing $$", "$$\n\na\n\nb\n\n$$\n\nc\n", "$$\n\nc", 3, ""],
+    ["adds a <pre>", "a\n\nb\n\nc\n</pre>\n\nd\n", "b\n", 0, "<pre>\n"],
+    ["adds a </pre>", "<pre>\na\n\nb\n\nc\n", "c\n", 0, "</pre>\n"],
+    ["adds a <!--", "a\n\nb\n\nc -->\n\nd\n", "b\n", 0, "<!--\n"],
+    ["adds a </script>", "<script>\na\n\nb\n\nc\n", "c\n", 0, "</script>\n"],
+  ])(
+    "lexes the document again when an edit %s",
+    (_, markdown, at, deleteCount, text) => {
+      const math = new Markyfy({ math: true, onWarning: () => {} });
+      const result = math.relex(markdown, math.lex(markdown), {
+        offset: markdown.indexOf(at),
+        deleteCount,
+        text,
+      });
+      expect(result.tokens).toEqual(math.lex(result.markdown));
+    }
+  );
+
+  it("matches a full lex after random edits", () => {
+    const document = [
+      "# Title",
+      "",
+      "Intro with **bold**.",
+      "",
+      "```js",
+      "const a = 1;",
+      "```",
+      "",
+      "$$",
+      "x^2",
+      "",
+      "$$",
+      "",
+      "$$ unclosed",
+      "",
+      "Para",
+      "",
+      "<pre>",
+      "a",
+      "",
+      "</pre>",
+      "",
+      "<!--",
+      "",
+      "-->",
+      "",
+      "- item",
+      "",
+      "End",
+      "",
+    ].join("\n");
+    const edits = [
+      "\n",
+      "\n\n",
+      "x",
+      "- ",
+      "# ",
+      "```",
+      "$$",
+      "<pre>",
+      "</pre>",
+      "<!--",
+      "-->",
+      "<script>",
+    ];
+    const math = new Markyfy({ math: true, onWarning: () => {} });
+    // A fixed linear congruential generator keeps the edits reproducible.
+    let seed = 1;
+    const random = (limit: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % limit;
+    };
+
+    for (let round = 0; round < 20; round++) {
+      let markdown = document;
+      let tokens = math.lex(markdown);
+      for (let step = 0; step < 15; step++) {
+        const offset = random(markdown.length + 1);
+        const result = math.relex(markdown, tokens, {
+          offset,
+          deleteCount: random(Math.min(6, markdown.length - offset) + 1),
+          text: edits[random(edits.length)],
+        });
+        expect(result.tokens).toEqual(math.lex(result.markdown));
+        ({ markdown, tokens } = result);
+      }
+    }
+  });
+
+  it("reuses the blocks after an edit", () => {
+    const markdown = "# Title\n\nIntro\n\nMore\n\nEnd\n";
+    const tokens = markyfy.lex(markdown);
+    const result = markyfy.relex(markdown, tokens, {
+      offset: markdown.indexOf("Intro"),
+      deleteCount: 5,
+      text: "Opening",
+    });
+    expect(result.tokens).toEqual(markyfy.lex(result.markdown));
+    expect(result.tokens[3]).toBe(tokens[3]);
+  });
+});
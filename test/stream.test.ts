@@ -0,0 +1,45 @@
+import { Markyfy, MarkyfyStream, ParserOptions } from "../src";
+
+/**
+ * Streams a document line by line and checks the output after every line against a parse of
+ * the lines received so far, with an open `$$` math block closed.
+ */
+function expectStreamed(markdown: string, options: ParserOptions = {}) {
+  const stream = new MarkyfyStream(options);
+  const markyfy = new Markyfy(options);
+  let source = "";
+  for (const line of markdown.split(/(?<=\n)/)) {
+    source += line;
+    const open = (source.match(/^\$\$$/gm) || []).length % 2 === 1;
+    expect(stream.push(line)).toBe(
+      markyfy.parse(open ? `${source}$$` : source)
+    );
+  }
+  expect(stream.end()).toBe(markyfy.parse(markdown));
+}
+
+describe("MarkyfyStream", () => {
+  it("keeps a closing fence line that arrives on its own", () => {
+    const stream = new MarkyfyStream();
+    stream.push("Intro\n\n```js\nconst a = 1;\n\nconst b;\n");
+    const html = stream.push("```");
+    expect(html).toBe(stream.end());
+  });
+
+  it("holds back a fence line that may still be growing", () => {
+    const stream = new MarkyfyStream();
+    expect(stream.push("Text\n\n``")).toBe("<p>Text</p>");
+  });
+
+  it("holds a math block with a blank line open", () => {
+    expectStreamed("Intro\n\n$$\na\n\nb\n$$\n\nAfter\n", { math: true });
+  });
+
+  it.each([
+    ["<pre>", "</pre>"],
+    ["<script>", "</script>"],
+    ["<!--", "-->"],
+  ])("holds a %s block with a blank line open", (open, close) => {
+    expectStreamed(`Intro\n\n${open}\na *b*\n\nc\n${close}\n\nAfter\n`);
+  });
+});
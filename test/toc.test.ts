@@ -0,0 +1,35 @@
+import { Markyfy } from "../src";
+
+describe("table of contents", () => {
+  it("links to header ids even with headerIds off", () => {
+    const markyfy = new Markyfy({
+      headerIds: false,
+      toc: { placeholder: true },
+    });
+    expect(markyfy.parse("[[toc]]\n\n# Intro\n\n## Setup")).toBe(
+      '<nav class="toc"><ul><li><a href="#intro">Intro</a><ul><li><a href="#setup">Setup</a></li></ul></li></ul></nav>\n' +
+        '<h1 id="intro">Intro</h1>\n<h2 id="setup">Setup</h2>'
+    );
+    expect(markyfy.parse("# Intro")).toBe("<h1>Intro</h1>");
+  });
+
+  it("leaves raw HTML out of header ids and entries", () => {
+    const markyfy = new Markyfy({ html: "passthrough" });
+    expect(markyfy.parse("# Press <kbd>Ctrl</kbd> C")).toBe(
+      '<h1 id="press-ctrl-c">Press <kbd>Ctrl</kbd> C</h1>'
+    );
+    expect(markyfy.getToc("# Press <kbd>Ctrl</kbd> C")).toEqual([
+      { text: "Press Ctrl C", id: "press-ctrl-c", depth: 1, children: [] },
+    ]);
+  });
+});
+
+describe("renderToc", () => {
+  it("renders the markup of the placeholder", () => {
+    const markdown = "[[toc]]\n\n# Intro\n\n## Setup";
+    const markyfy = new Markyfy({ toc: { placeholder: true } });
+    const [placeholder] = markyfy.parse(markdown).split("\n");
+    expect(markyfy.renderToc(markdown)).toBe(placeholder);
+    expect(markyfy.renderToc(markyfy.lex(markdown))).toBe(placeholder);
+  });
+});
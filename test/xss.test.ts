@@ -0,0 +1,244 @@
+import { Markyfy, Sanitizer } from "../src";
+
+/**
+ * Decodes the character references in an attribute value, the way a browser does.
+ */
+function decodeAttribute(value: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    quot: '"',
+    apos: "'",
+    lt: "<",
+    gt: ">",
+    colon: ":",
+    tab: "\t",
+    newline: "\n",
+  };
+  return value.replace(
+    /&(?:#x([0-9a-f]+)|#(\d+)|([a-z]+));?/gi,
+    (entity, hex, decimal, name) =>
+      hex
+        ? String.fromCodePoint(parseInt(hex, 16))
+        : decimal
+        ? String.fromCodePoint(parseInt(decimal, 10))
+        : named[name.toLowerCase()] ?? entity
+  );
+}
+
+/**
+ * Collects the tags of an HTML string with their attributes, decoded.
+ */
+function parseTags(
+  html: string
+): { tag: string; attributes: [string, string][] }[] {
+  const tags: { tag: string; attributes: [string, string][] }[] = [];
+  for (const [, tag, source] of html.matchAll(/<([a-z][\w-]*)([^>]*)>/gi)) {
+    const attributes: [string, string][] = [];
+    for (const [, name, ...values] of source.matchAll(
+      /([^\s"'=\/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+    )) {
+      const value = values.find((value) => value !== undefined) ?? "";
+      attributes.push([name.toLowerCase(), decodeAttribute(value)]);
+    }
+    tags.push({ tag: tag.toLowerCase(), attributes });
+  }
+  return tags;
+}
+
+/**
+ * Asserts that HTML contains no script-capable tags, event handlers or dangerous URLs.
+ */
+function expectSafe(html: string): void {
+  for (const { tag, attributes } of parseTags(html)) {
+    expect([
+      "script",
+      "iframe",
+      "object",
+      "embed",
+      "svg",
+      "style",
+    ]).not.toContain(tag);
+    for (const [name, value] of attributes) {
+      expect(name).not.toMatch(/^on/);
+      expect(name).not.toBe("style");
+      if (
+        ["href", "src", "action", "formaction", "xlink:href"].includes(name)
+      ) {
+        // Browsers ignore ASCII whitespace and control characters in schemes.
+        const url = value.replace(/[\u0000- ]/g, "").toLowerCase();
+        expect(url).not.toMatch(/^(?:javascript|vbscript|data):/);
+      }
+    }
+  }
+}
+
+const corpus: [string, string][] = [
+  ["javascript: link", "[a](javascript:alert(1))"],
+  ["mixed-case scheme", "[a](JaVaScRiPt:alert(1))"],
+  ["tab in scheme", "[a](java\tscript:alert(1))"],
+  ["newline in scheme", "[a](<java\nscript:alert(1)>)"],
+  ["leading whitespace", "[a](< javascript:alert(1)>)"],
+  [
+    "data: link",
+    "[a](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)",
+  ],
+  ["data: image", "![a](data:image/svg+xml,<svg onload=alert(1)>)"],
+  ["vbscript: link", "[a](vbscript:msgbox(1))"],
+  ["decimal entity scheme", "[a](&#106;avascript:alert(1))"],
+  ["hex entity scheme", "[a](&#x6A;avascript:alert(1))"],
+  ["named entity colon", "[a](javascript&colon;alert(1))"],
+  ["entity tab in scheme", "[a](java&#9;script:alert(1))"],
+  ["backslash-escaped colon", "[a](javascript\\:alert(1))"],
+  ["javascript: image", "![a](javascript:alert(1))"],
+  ["javascript: reference link", "[a][r]\n\n[r]: javascript:alert(1)"],
+  ["javascript: reference image", "![a][r]\n\n[r]: javascript:alert(1)"],
+  ["javascript: autolink", "<javascript:alert(1)>"],
+  ["quote breakout in href", '[a](http://x"onmouseover="alert(1))'],
+  ["quote breakout in title", '[a](http://x "t\\" onmouseover=\\"alert(1)")'],
+  ["single-quote title", "[a](http://x 't' onmouseover='alert(1)')"],
+  ["quote breakout in src", '![a](http://x"onerror="alert(1))'],
+  ["quote breakout in alt", '![a"onerror="alert(1)](http://x)'],
+  ["quote breakout in image title", '![a](http://x "b\\" onload=\\"alert(1)")'],
+  ["raw img onerror", "<img src=x onerror=alert(1)>"],
+  ["raw img onerror, quoted", '<img src="x" onerror="alert(1)">'],
+  ["raw img javascript src", '<img src="javascript:alert(1)">'],
+  ["raw img entity src", '<IMG SRC="jav&#x09;ascript:alert(1)">'],
+  ["raw a javascript href", '<a href="javascript:alert(1)">x</a>'],
+  ["raw a entity href", '<a href="&#106;avascript:alert(1)">x</a>'],
+  [
+    "raw style attribute",
+    '<p style="background:url(javascript:alert(1))">x</p>',
+  ],
+  ["script block", "<script>alert(1)</script>"],
+  ["inline script", "x <script>alert(1)</script> y"],
+  ["uppercase script", "<SCRIPT SRC=//evil.example></SCRIPT>"],
+  ["svg onload", "<svg onload=alert(1)>"],
+  ["iframe", '<iframe src="javascript:alert(1)"></iframe>'],
+  ["details ontoggle", "<details open ontoggle=alert(1)>x</details>"],
+  ["html in link text", "[<img src=x onerror=alert(1)>](http://x)"],
+  ["html in table cell", "| a |\n| - |\n| <img src=x onerror=alert(1)> |"],
+  ["html in blockquote", "> <script>alert(1)</script>"],
+  ["html in footnote", "x[^1]\n\n[^1]: <img src=x onerror=alert(1)>"],
+];
+
+describe("XSS corpus", () => {
+  const markyfy = new Markyfy();
+
+  it.each(corpus)("%s", (_name, markdown) => {
+    expectSafe(markyfy.parse(markdown));
+  });
+
+  it.each(corpus)("%s (commonmark)", (_name, markdown) => {
+    expectSafe(new Markyfy({ commonmark: true }).parse(markdown));
+  });
+
+  it.each(corpus)('%s (html: "escape")', (_name, markdown) => {
+    expectSafe(new Markyfy({ html: "escape" }).parse(markdown));
+  });
+
+  it('filters raw HTML with html: "passthrough" while sanitize is on', () => {
+    const passthrough = new Markyfy({ html: "passthrough" });
+    for (const [, markdown] of corpus) expectSafe(passthrough.parse(markdown));
+  });
+
+  it("keeps safe links and images", () => {
+    expect(markyfy.parse("[a](https://example.com)")).toBe(
+      '<p><a href="https://example.com">a</a></p>'
+    );
+    expect(markyfy.parse("![a](/img.png)")).toBe(
+      '<p><img src="/img.png" alt="a"></p>'
+    );
+  });
+});
+
+describe("renderer hooks", () => {
+  it("passes hook output through Sanitizer.sanitizeHtml", () => {
+    const markyfy = new Markyfy({
+      renderer: {
+        paragraph: () =>
+          '<p onclick="alert(1)"><a href="javascript:alert(1)">x</a><script>alert(1)</script></p>',
+        link: (token) => `<a href="${token.url}" onmouseover="alert(1)">x</a>`,
+        image: () => '<img src="x" onerror="alert(1)">',
+      },
+    });
+
+    expectSafe(markyfy.parse("text"));
+    expectSafe(markyfy.parse("# [a](http://x)"));
+    expectSafe(markyfy.parse("# ![a](x)"));
+  });
+
+  it("sanitizes the markup escapeHtml hands back to hooks", () => {
+    const markyfy = new Markyfy({
+      renderer: {
+        header: (token, { escapeHtml }) =>
+          `<h1 title="${escapeHtml(token.text || "")}">x</h1>`,
+      },
+    });
+    expectSafe(markyfy.parse('# a" onmouseover="alert(1)'));
+  });
+
+  it("keeps the table of contents markup of a hook", () => {
+    const markyfy = new Markyfy({
+      toc: { placeholder: true },
+      renderer: { toc: (_token, { renderDefault }) => renderDefault() },
+    });
+    expect(markyfy.parse("[[toc]]\n\n# Intro")).toBe(
+      '<nav class="toc"><ul><li><a href="#intro">Intro</a></li></ul></nav>\n' +
+        '<h1 id="intro">Intro</h1>'
+    );
+  });
+});
+
+describe("raw HTML ids", () => {
+  it("prefixes the ids of filtered raw HTML", () => {
+    expect(
+      new Markyfy().parse('x[^1]\n\n<div id="fn:1">a</div>\n\n[^1]: note')
+    ).toContain('<div id="user-content-fn:1">a</div>');
+    expect(new Markyfy().parse('<img id="config" src="x.png">')).toBe(
+      '<img id="user-content-config" src="x.png">'
+    );
+  });
+
+  it("leaves the ids of headers and of passthrough HTML alone", () => {
+    expect(new Markyfy({ headerIds: true }).parse("# Intro")).toBe(
+      '<h1 id="intro">Intro</h1>'
+    );
+    expect(
+      new Markyfy({ html: "passthrough", sanitize: false }).parse(
+        '<div id="a"></div>'
+      )
+    ).toBe('<div id="a"></div>');
+  });
+});
+
+describe("Sanitizer.sanitizeHtml", () => {
+  const sanitizer = new Sanitizer();
+
+  it.each([
+    "<img src=x onerror=alert(1)>",
+    "<script>alert(1)</script>",
+    '<a href="JaVaScRiPt:alert(1)">x</a>',
+    '<a href="java\tscript:alert(1)">x</a>',
+    '<a href="&#106;avascript:alert(1)">x</a>',
+    '<a href="javascript&colon;alert(1)">x</a>',
+    '<a href="vbscript:msgbox(1)">x</a>',
+    '<img src="data:image/svg+xml,<svg onload=alert(1)>">',
+    "<a href=x onclick=alert(1)>x</a>",
+    '<div style="x:expression(alert(1))">x</div>',
+  ])("%s", (html) => {
+    expectSafe(sanitizer.sanitizeHtml(html));
+  });
+
+  it("rejects dangerous URL schemes", () => {
+    for (const url of [
+      "javascript:alert(1)",
+      "JAVASCRIPT:alert(1)",
+      " javascript:alert(1)",
+      "java\nscript:alert(1)",
+      "data:text/html,x",
+      "vbscript:x",
+    ]) {
+      expect(sanitizer.sanitizeUrl(url)).toBe("");
+    }
+  });
+});